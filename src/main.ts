@@ -3,32 +3,108 @@ import './lil-gui-overrides.css'
 import * as THREE from 'three'
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js'
 import GUI from 'lil-gui'
+import {
+  degreesLat,
+  degreesLong,
+  degreesToRadians,
+  eciToEcf,
+  eciToGeodetic,
+  ecfToLookAngles,
+  gstime,
+  json2satrec,
+  propagate,
+  radiansToDegrees,
+  twoline2satrec,
+  type EciVec3,
+  type OMMJsonObject,
+  type SatRec,
+} from 'satellite.js'
 import {
   Body,
   Ecliptic,
   GeoVector,
   HelioVector,
   Observer,
+  PlanetOrbitalPeriod,
   Equator,
   Horizon,
   SiderealTime,
+  AngleBetween,
+  AngleFromSun,
+  C_AUDAY,
+  Constellation,
+  EquatorFromVector,
+  HelioDistance,
+  HourAngle,
+  InverseRotation,
+  Illumination,
+  JupiterMoons,
+  MakeTime,
+  MoonPhase,
+  NextGlobalSolarEclipse,
+  NextMoonQuarter,
+  NextLocalSolarEclipse,
+  NextLunarEclipse,
+  ObserverVector,
+  RotateVector,
+  RotationAxis,
+  Rotation_EQJ_EQD,
+  Rotation_EQJ_HOR,
+  SearchAltitude,
+  SearchGlobalSolarEclipse,
+  SearchHourAngle,
+  SearchLocalSolarEclipse,
+  SearchLunarEclipse,
+  SearchMoonPhase,
+  SearchMoonQuarter,
+  SearchRiseSet,
+  Spherical,
+  SphereFromVector,
+  e_tilt,
   Vector as AstroVector,
+  VectorFromSphere,
+  type EquatorialCoordinates,
+  type LocalSolarEclipseInfo,
 } from 'astronomy-engine'
 
 // Lawrence, KS
 const DEFAULT_LAT = 38.9717
 const DEFAULT_LON = -95.2353
+const DEFAULT_ELEVATION_M = 263
 const OBLIQUITY_RAD = (23.439292 * Math.PI) / 180
 const DEFAULT_TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone ?? 'browser time'
 
-const LCDM = {
-  omegaMatter: 0.315,
-  omegaLambda: 0.685,
-  // Planck-like H0 ~= 67.4 km/s/Mpc converted to inverse gigayears.
-  hubblePerGyr: 1 / (9.778 / 0.674),
+type Cosmology = {
+  h0: number // km/s/Mpc
+  omegaM: number
+  omegaLambda: number
+  // Photons plus three massless neutrino species.
+  omegaR: number
+}
+
+type CosmologyPreset = 'planck2018' | 'wmap9' | 'eds'
+
+// Flat fits as tabulated by astropy (Planck18, WMAP9), with Ωr from the CMB temperature
+// and H0; curvature closes the budget, Ωk = 1 - Ωm - ΩΛ - Ωr.
+const COSMOLOGY_PRESETS: Record<CosmologyPreset, { label: string; model: Cosmology }> = {
+  planck2018: { label: 'Planck 2018', model: { h0: 67.66, omegaM: 0.30966, omegaLambda: 0.69025, omegaR: 0.0000914 } },
+  wmap9: { label: 'WMAP9', model: { h0: 69.32, omegaM: 0.2865, omegaLambda: 0.71341, omegaR: 0.0000871 } },
+  eds: { label: 'Einstein–de Sitter', model: { h0: 70, omegaM: 1, omegaLambda: 0, omegaR: 0 } },
 }
 
 const AU_KM = 149597870.7
+const EARTH_RADIUS_KM = 6371
+const MOON_RADIUS_KM = 1737.4
+const SUN_RADIUS_KM = 695700
+const DAY_MS = 86400000
+const SIDEREAL_DAY_MS = 86164090.5
+const SYNODIC_MONTH_MS = 29.530588853 * DAY_MS
+const TROPICAL_YEAR_MS = 365.24219 * DAY_MS
+// astronomy-engine's searches (seasons, eclipses) start failing beyond about ±12,000 years, and
+// past ±8.64e15 ms a Date is Invalid; keep sim time to years -9999..9999 and speed to match.
+const SIM_TIME_MIN_MS = Date.UTC(-9999, 0, 1)
+const SIM_TIME_MAX_MS = Date.UTC(9999, 11, 31, 23, 59, 59)
+const SIM_SPEED_LIMIT = 1e10
 
 type Panel = {
   name: string
@@ -51,14 +127,43 @@ type AstroClockTime = {
 
 class TimeController {
   private lastRealMs = performance.now()
+  private _speed = 1 // 1 = real-time
+  private _simTime = new Date()
   public paused = false
-  public speed = 1 // 1 = real-time
-  public simTime = new Date()
+
+  get speed() {
+    return this._speed
+  }
+
+  set speed(value: number) {
+    if (Number.isFinite(value)) this._speed = clamp(value, -SIM_SPEED_LIMIT, SIM_SPEED_LIMIT)
+  }
+
+  get simTime() {
+    return this._simTime
+  }
+
+  private set simTime(date: Date) {
+    const ms = date.getTime()
+    if (Number.isFinite(ms)) this._simTime = new Date(clamp(ms, SIM_TIME_MIN_MS, SIM_TIME_MAX_MS))
+  }
 
   resetNow() {
     this.simTime = new Date()
   }
 
+  jumpTo(date: Date) {
+    this.simTime = date
+  }
+
+  step(ms: number) {
+    if (Number.isFinite(ms)) this.simTime = new Date(this.simTime.getTime() + ms)
+  }
+
+  reverse() {
+    this.speed = -this.speed
+  }
+
   tick(): AstroClockTime {
     const realNowMs = performance.now()
     const dtReal = (realNowMs - this.lastRealMs) / 1000
@@ -120,6 +225,162 @@ function makePanel(name: string, root: HTMLElement): Panel {
   }
 }
 
+type HoverTarget = { obj: THREE.Object3D; label: string; observed?: ObservedBody }
+
+// The hover target under the ray: the nearest mesh hit, credited to the target it belongs to.
+// Lines are skipped, since their pick threshold is in world units and swallows whole panels.
+function pickHoverTarget(raycaster: THREE.Raycaster, targets: HoverTarget[]) {
+  const hits = raycaster.intersectObjects(targets.map((t) => t.obj), true)
+  for (const hit of hits) {
+    if (!(hit.object as THREE.Mesh).isMesh) continue
+    for (let obj: THREE.Object3D | null = hit.object; obj; obj = obj.parent) {
+      const found = targets.find((t) => t.obj === obj)
+      if (found) return found
+    }
+  }
+  return undefined
+}
+
+type CameraFocus = {
+  focus: (obj: THREE.Object3D, radius: number, viewDir?: THREE.Vector3) => void
+  clear: () => void
+  focused: () => THREE.Object3D | null
+  // The focused body was redrawn `factor` times larger: keep the framing and limits in step.
+  rescale: (factor: number) => void
+  update: () => void
+}
+
+// Flies the camera to a body, then keeps the orbit target locked on it and carries the camera
+// along as it moves. Zoom limits and the near plane follow the body's size; clear() flies back
+// to the view the panel was set up with. Call update() each frame after the bodies move.
+function makeCameraFocus(panel: Panel, flightMs = 1200): CameraFocus {
+  const { camera, controls } = panel
+  const home = {
+    position: camera.position.clone(),
+    target: controls.target.clone(),
+    minDistance: controls.minDistance,
+    maxDistance: controls.maxDistance,
+    near: camera.near,
+  }
+  let body: THREE.Object3D | null = null
+  let bodyRadius = 0
+  let flight: { startMs: number; fromPosition: THREE.Vector3; fromTarget: THREE.Vector3; offset: THREE.Vector3 } | null = null
+  const lastPosition = new THREE.Vector3()
+
+  const bodyPosition = () => {
+    if (!body) return home.target.clone()
+    body.updateWorldMatrix(true, false)
+    return body.getWorldPosition(new THREE.Vector3())
+  }
+  const setNear = (near: number) => {
+    camera.near = near
+    camera.updateProjectionMatrix()
+  }
+  const setLimits = () => {
+    controls.minDistance = bodyRadius * 1.4
+    controls.maxDistance = home.maxDistance
+    setNear(Math.min(home.near, bodyRadius * 0.2))
+  }
+
+  return {
+    focus(obj, radius, viewDir) {
+      body = obj
+      const p = bodyPosition()
+      const dir = unit(viewDir ?? camera.position.clone().sub(p))
+      flight = {
+        startMs: performance.now(),
+        fromPosition: camera.position.clone(),
+        fromTarget: controls.target.clone(),
+        offset: dir.multiplyScalar(radius * 6),
+      }
+      lastPosition.copy(p)
+      bodyRadius = radius
+      setLimits()
+    },
+    clear() {
+      if (!body && !flight) return
+      body = null
+      flight = {
+        startMs: performance.now(),
+        fromPosition: camera.position.clone(),
+        fromTarget: controls.target.clone(),
+        offset: home.position.clone().sub(home.target),
+      }
+    },
+    focused: () => body,
+    rescale(factor) {
+      if (!body || !(factor > 0) || factor === 1) return
+      bodyRadius *= factor
+      if (flight) flight.offset.multiplyScalar(factor)
+      else camera.position.sub(controls.target).multiplyScalar(factor).add(controls.target)
+      setLimits()
+    },
+    update() {
+      if (!body && !flight) return
+      const p = bodyPosition()
+      if (flight) {
+        const k = clamp((performance.now() - flight.startMs) / flightMs, 0, 1)
+        const s = k * k * (3 - 2 * k)
+        controls.target.lerpVectors(flight.fromTarget, p, s)
+        camera.position.lerpVectors(flight.fromPosition, p.clone().add(flight.offset), s)
+        if (k >= 1) {
+          flight = null
+          if (!body) {
+            // Back home: only now restore the limits, so the clamp does not yank the flight.
+            controls.minDistance = home.minDistance
+            controls.maxDistance = home.maxDistance
+            setNear(home.near)
+          }
+        }
+      } else {
+        camera.position.add(p.clone().sub(lastPosition))
+        controls.target.copy(p)
+      }
+      lastPosition.copy(p)
+    },
+  }
+}
+
+// Clicking a hover target (not dragging past it) flies the camera to it and follows it; Escape
+// flies back home. `onPick` sees the target (and the click, for its modifier keys) first and may
+// take over the click by returning true.
+function bindFocusControls(
+  panel: Panel,
+  hoverTargets: HoverTarget[],
+  cameraFocus: CameraFocus,
+  onPick?: (target: HoverTarget, ev: MouseEvent) => boolean
+) {
+  const dom = panel.renderer.domElement
+  const raycaster = new THREE.Raycaster()
+  const pointerDown = new THREE.Vector2()
+  dom.addEventListener('pointerdown', (ev) => {
+    pointerDown.set(ev.clientX, ev.clientY)
+  })
+  dom.addEventListener('click', (ev) => {
+    if (pointerDown.distanceTo(new THREE.Vector2(ev.clientX, ev.clientY)) > 4) return
+    const rect = dom.getBoundingClientRect()
+    const ndc = new THREE.Vector2(((ev.clientX - rect.left) / rect.width) * 2 - 1, -(((ev.clientY - rect.top) / rect.height) * 2 - 1))
+    raycaster.setFromCamera(ndc, panel.camera)
+    const found = pickHoverTarget(raycaster, hoverTargets)
+    if (!found || onPick?.(found, ev)) return
+    cameraFocus.focus(found.obj, objectRadius(found.obj))
+  })
+  window.addEventListener('keydown', (ev) => {
+    if (ev.key !== 'Escape' || !panel.root.offsetParent) return
+    if ((ev.target as HTMLElement).closest?.('input, textarea, select')) return
+    cameraFocus.clear()
+  })
+}
+
+// Drawn radius of a mesh, geometry times world scale, for sizing a camera focus on it.
+function objectRadius(obj: THREE.Object3D, fallback = 0.05) {
+  const geometry = (obj as THREE.Mesh).geometry
+  if (!geometry) return fallback
+  if (!geometry.boundingSphere) geometry.computeBoundingSphere()
+  const radius = geometry.boundingSphere?.radius
+  return radius == null ? fallback : radius * obj.getWorldScale(new THREE.Vector3()).x
+}
+
 function textOverlay(el: HTMLElement, lines: string[]) {
   el.innerHTML = lines.map((s) => `<div>${s}</div>`).join('')
 }
@@ -133,12 +394,145 @@ function escapeHtml(value: string) {
     .replaceAll("'", '&#39;')
 }
 
-function formatTime(d: Date) {
+// Exaggeration factors: one decimal below ten, whole numbers above.
+function formatFactor(value: number) {
+  return value >= 10 ? `${Math.round(value)}` : value.toFixed(1)
+}
+
+// Without a zone this is the browser's local time.
+function formatTime(d: Date, timeZone?: string) {
   const pad = (n: number) => `${n}`.padStart(2, '0')
+  if (timeZone) {
+    const p = zonedParts(d, timeZone)
+    return `${p.year}-${pad(p.month)}-${pad(p.day)} ${pad(p.hour)}:${pad(p.minute)}:${pad(p.second)}`
+  }
   return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`
 }
 
-function formatLocationLabel(lat: number, lon: number) {
+function formatUtcOffset(d: Date, timeZone: string) {
+  const minutes = Math.round(zoneOffsetMs(d, timeZone) / 60000)
+  const sign = minutes < 0 ? '−' : '+'
+  const abs = Math.abs(minutes)
+  return `UTC${sign}${`${Math.floor(abs / 60)}`.padStart(2, '0')}:${`${abs % 60}`.padStart(2, '0')}`
+}
+
+// Hours (any range) as hh:mm:ss on a 24 h dial.
+function formatHms(hours: number) {
+  const totalSeconds = Math.round((((hours % 24) + 24) % 24) * 3600) % 86400
+  const pad = (n: number) => `${n}`.padStart(2, '0')
+  return `${pad(Math.floor(totalSeconds / 3600))}:${pad(Math.floor(totalSeconds / 60) % 60)}:${pad(totalSeconds % 60)}`
+}
+
+function utcMs(year: number, month: number, day: number, hour = 0, minute = 0, second = 0) {
+  // Date.UTC maps years 0-99 to 1900-1999, so set the full year explicitly.
+  const d = new Date(0)
+  d.setUTCFullYear(year, month - 1, day)
+  d.setUTCHours(hour, minute, second, 0)
+  return d.getTime()
+}
+
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>()
+
+function zonedParts(date: Date, timeZone: string) {
+  // Formatters are costly to build and the card formats several times a frame.
+  let formatter = zoneFormatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      era: 'short',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    })
+    zoneFormatters.set(timeZone, formatter)
+  }
+  const parts = formatter.formatToParts(date)
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value ?? ''
+  const year = Number(get('year'))
+  return {
+    year: get('era') === 'BC' ? 1 - year : year,
+    month: Number(get('month')),
+    day: Number(get('day')),
+    hour: Number(get('hour')),
+    minute: Number(get('minute')),
+    second: Number(get('second')),
+  }
+}
+
+function zoneOffsetMs(date: Date, timeZone: string) {
+  const p = zonedParts(date, timeZone)
+  return utcMs(p.year, p.month, p.day, p.hour, p.minute, p.second) - Math.floor(date.getTime() / 1000) * 1000
+}
+
+function zonedTimeToDate(
+  fields: { year: number; month: number; day: number; hour: number; minute: number; second: number },
+  timeZone: string
+) {
+  // Wall-clock time in a zone -> instant. Re-check the offset once so times near a
+  // DST switch resolve against the offset actually in force.
+  const guess = utcMs(fields.year, fields.month, fields.day, fields.hour, fields.minute, fields.second)
+  const first = guess - zoneOffsetMs(new Date(guess), timeZone)
+  return new Date(guess - zoneOffsetMs(new Date(first), timeZone))
+}
+
+function formatDateTimeInput(date: Date, timeZone: string) {
+  const p = zonedParts(date, timeZone)
+  const pad = (n: number) => `${n}`.padStart(2, '0')
+  return `${`${p.year}`.padStart(4, '0')}-${pad(p.month)}-${pad(p.day)}T${pad(p.hour)}:${pad(p.minute)}:${pad(p.second)}`
+}
+
+type TimeScales = {
+  jd: number
+  mjd: number
+  gmstHours: number
+  gastHours: number
+  lmstHours: number
+  lastHours: number
+  equationOfTimeMin: number
+}
+
+// UTC stands in for UT1 here; the difference is under a second.
+function computeTimeScales(date: Date, lon: number): TimeScales {
+  const jd = date.getTime() / DAY_MS + 2440587.5
+  const gastHours = SiderealTime(date)
+  // SiderealTime is apparent; the equation of the equinoxes (seconds of time) separates it from mean.
+  const gmstHours = gastHours - e_tilt(MakeTime(date)).ee / 3600
+  // Apparent minus mean solar time, wrapped to ±12 h.
+  const apparentSolarHours = HourAngle(Body.Sun, date, new Observer(0, 0, 0)) + 12
+  const meanSolarHours = date.getTime() / 3600000
+  const eotHours = ((((apparentSolarHours - meanSolarHours + 12) % 24) + 24) % 24) - 12
+  return {
+    jd,
+    mjd: jd - 2400000.5,
+    gmstHours,
+    gastHours,
+    lmstHours: gmstHours + lon / 15,
+    lastHours: gastHours + lon / 15,
+    equationOfTimeMin: eotHours * 60,
+  }
+}
+
+function isTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Etc/GMT zones carry the POSIX sign: Etc/GMT+6 is six hours behind UTC.
+function nauticalTimeZone(lon: number) {
+  const offset = Math.round(lon / 15)
+  return offset === 0 ? 'Etc/GMT' : `Etc/GMT${offset > 0 ? '-' : '+'}${Math.abs(offset)}`
+}
+
+function formatLocationLabel(lat: number, lon: number, placeLabel = '') {
+  if (placeLabel) return `Earth (${placeLabel})`
   const isDefault =
     Math.abs(lat - DEFAULT_LAT) < 0.0001 && Math.abs(lon - DEFAULT_LON) < 0.0001
   return isDefault ? 'Earth (Lawrence, KS)' : `Earth (${lat.toFixed(4)}, ${lon.toFixed(4)})`
@@ -163,13 +557,6 @@ function eclipticToThreeVec(v: AstroVector, scale = 1) {
   return new THREE.Vector3(v.x * scale, v.z * scale, v.y * scale)
 }
 
-function helioToEclipticPlane(v: AstroVector, scale = 1) {
-  // astronomy-engine already gives heliocentric vectors in the J2000 equatorial
-  // frame. Convert that to the true ecliptic of date, then flatten to a top-down view.
-  const eclip = Ecliptic(v).vec
-  return new THREE.Vector3(eclip.x * scale, 0, eclip.y * scale)
-}
-
 function helioToEclipticVec(v: AstroVector, scale = 1) {
   // Use the actual 3D heliocentric vector, rotated into the true ecliptic frame.
   return eclipticToThreeVec(Ecliptic(v).vec, scale)
@@ -179,11 +566,168 @@ function vectorLength(v: AstroVector, scale = 1) {
   return Math.hypot(v.x, v.y, v.z) * scale
 }
 
-function lcdmScaleFactor(ageGyr: number) {
-  const { omegaMatter, omegaLambda, hubblePerGyr } = LCDM
-  const lambdaMatterRatio = Math.sqrt(omegaLambda / omegaMatter)
-  const sinhTerm = Math.sinh(1.5 * hubblePerGyr * Math.sqrt(omegaLambda) * ageGyr)
-  return Math.max(1e-6, Math.pow(sinhTerm / lambdaMatterRatio, 2 / 3))
+// 1/H0 in Gyr for H0 in km/s/Mpc.
+const HUBBLE_TIME_GYR = 977.792
+
+function curvatureOmega(model: Cosmology) {
+  return 1 - model.omegaM - model.omegaLambda - model.omegaR
+}
+
+// Friedmann equation as a⁴E(a)² in terms of s = √a, which keeps the integrands below smooth
+// down to the Big Bang.
+function friedmannQ(model: Cosmology, s: number) {
+  const a = s * s
+  return model.omegaR + model.omegaM * a + curvatureOmega(model) * a * a + model.omegaLambda * a * a * a * a
+}
+
+// Integrals start just after s = 0, where Q vanishes without radiation; the integrands stay finite.
+const S_MIN = 1e-12
+
+function simpson(f: (x: number) => number, lo: number, hi: number, n = 400) {
+  const h = (hi - lo) / n
+  let sum = f(lo) + f(hi)
+  for (let i = 1; i < n; i++) sum += f(lo + i * h) * (i % 2 ? 4 : 2)
+  return (sum * h) / 3
+}
+
+// Cosmic time at scale factor a, in units of 1/H0: ∫ da / (a E) = ∫ 2s³ ds / √Q.
+function ageInHubbleTimes(model: Cosmology, a: number) {
+  return simpson((s) => (2 * s * s * s) / Math.sqrt(friedmannQ(model, s)), S_MIN, Math.sqrt(a))
+}
+
+// Conformal time at a, in Hubble distances: ∫ da / (a² E) = ∫ 2s ds / √Q.
+function conformalInHubbleDistances(model: Cosmology, a: number) {
+  return simpson((s) => (2 * s) / Math.sqrt(friedmannQ(model, s)), S_MIN, Math.sqrt(a))
+}
+
+// Transverse comoving distance from the line-of-sight one (both in Hubble distances); it bends with curvature.
+function transverseComoving(model: Cosmology, comoving: number) {
+  const k = curvatureOmega(model)
+  if (k > 1e-9) return Math.sinh(Math.sqrt(k) * comoving) / Math.sqrt(k)
+  if (k < -1e-9) return Math.sin(Math.sqrt(-k) * comoving) / Math.sqrt(-k)
+  return comoving
+}
+
+type CosmologyEpoch = {
+  ageTodayGyr: number
+  a: number
+  z: number
+  ageGyr: number
+  lookbackGyr: number
+  hubble: number // H(z), km/s/Mpc
+  // Mpc; comoving distances are negative for future epochs.
+  comovingMpc: number
+  luminosityMpc: number
+  angularMpc: number
+  // Comoving particle horizon at the epoch.
+  horizonMpc: number
+  // Set when the model has no Big Bang, or the epoch lies past a recollapse.
+  problem?: string
+}
+
+// Solves the expanding branch of a Friedmann model numerically, for an epoch given by cosmic
+// age or by redshift.
+function solveCosmology(model: Cosmology, epoch: { ageGyr: number } | { z: number }): CosmologyEpoch | { problem: string } {
+  const sMaxLimit = 100 // a = 10⁴
+  // Where Q falls to zero the expansion stops: before s = 1 there was no Big Bang, after it recollapses.
+  let sMax = sMaxLimit
+  for (let k = 1; k <= 20000; k++) {
+    const s = (k / 20000) * sMaxLimit
+    if (friedmannQ(model, s) <= 0) {
+      sMax = ((k - 1) / 20000) * sMaxLimit
+      break
+    }
+  }
+  if (sMax < 1) return { problem: 'no Big Bang: this model bounces before reaching today' }
+  if (model.omegaM <= 0 && model.omegaR <= 0 && curvatureOmega(model) <= 0) {
+    return { problem: 'no Big Bang: without matter, radiation or open curvature the past is infinite' }
+  }
+
+  const hubbleTime = HUBBLE_TIME_GYR / model.h0
+  const hubbleDistance = LIGHT_SPEED_KM_S / model.h0
+  const aMax = sMax * sMax
+  const ageTodayGyr = ageInHubbleTimes(model, 1) * hubbleTime
+
+  let a: number
+  let problem: string | undefined
+  if ('z' in epoch) {
+    a = 1 / (1 + epoch.z)
+    if (a > aMax) {
+      a = aMax
+      problem = `expansion stops at a ≈ ${aMax.toFixed(2)}; recollapse is not modelled`
+    }
+  } else {
+    // Age grows with a along the expanding branch; bisect in log a.
+    const target = epoch.ageGyr / hubbleTime
+    if (target >= ageInHubbleTimes(model, aMax)) {
+      a = aMax
+      problem = `expansion stops at a ≈ ${aMax.toFixed(2)}; recollapse is not modelled`
+    } else {
+      let [lo, hi] = [Math.log(1e-9), Math.log(aMax)]
+      for (let i = 0; i < 60; i++) {
+        const mid = (lo + hi) / 2
+        if (ageInHubbleTimes(model, Math.exp(mid)) < target) lo = mid
+        else hi = mid
+      }
+      a = Math.exp((lo + hi) / 2)
+    }
+  }
+
+  const ageGyr = ageInHubbleTimes(model, a) * hubbleTime
+  const horizon = conformalInHubbleDistances(model, a)
+  const comoving = conformalInHubbleDistances(model, 1) - horizon
+  const transverse = transverseComoving(model, comoving)
+  const z = 1 / a - 1
+  return {
+    ageTodayGyr,
+    a,
+    z,
+    ageGyr,
+    lookbackGyr: ageTodayGyr - ageGyr,
+    hubble: (model.h0 * Math.sqrt(friedmannQ(model, Math.sqrt(a)))) / (a * a),
+    comovingMpc: comoving * hubbleDistance,
+    luminosityMpc: transverse * (1 + z) * hubbleDistance,
+    angularMpc: (transverse / (1 + z)) * hubbleDistance,
+    horizonMpc: horizon * hubbleDistance,
+    problem,
+  }
+}
+
+// Rough epoch names keyed by redshift, so they hold in any model.
+function cosmicEpochLabel(epoch: CosmologyEpoch, model: Cosmology) {
+  if (epoch.z > 20) return 'dark ages / cosmic dawn'
+  if (epoch.z > 5.7) return 'first galaxies / reionization'
+  if (epoch.z > 1) return 'peak star formation era'
+  if (epoch.z > 0.35) return 'maturing cosmic web'
+  if (epoch.z >= 0) return 'late galaxy evolution'
+  if (model.omegaLambda <= 0) return 'future expansion'
+  return epoch.a < 1.5 ? 'dark energy era' : 'far future (Λ-dominated)'
+}
+
+function formatCosmicDistance(mpc: number) {
+  const gly = (mpc * 3.26156) / 1000
+  return `${Math.round(mpc).toLocaleString('en-US')} Mpc (${gly.toFixed(gly < 10 ? 2 : 1)} Gly)`
+}
+
+// The low-redshift Hubble law a model predicts: cz against luminosity distance, which is what a
+// distance modulus measures. Tabulated out to maxMpc and interpolated; NaN beyond the table.
+function modelHubbleRelation(model: Cosmology, maxMpc = 2000) {
+  const hubbleDistance = LIGHT_SPEED_KM_S / model.h0
+  const table: Array<[number, number]> = [[0, 0]]
+  for (let z = 0.002; table[table.length - 1][0] < maxMpc && z < 10; z += Math.max(0.002, z * 0.05)) {
+    // Integrated from a up to today, so models without a Big Bang still get their nearby distances.
+    const comoving = simpson((s) => (2 * s) / Math.sqrt(friedmannQ(model, s)), Math.sqrt(1 / (1 + z)), 1, 64)
+    const luminosityMpc = transverseComoving(model, comoving) * (1 + z) * hubbleDistance
+    if (!Number.isFinite(luminosityMpc) || luminosityMpc <= table[table.length - 1][0]) break
+    table.push([luminosityMpc, LIGHT_SPEED_KM_S * z])
+  }
+  return (distanceMpc: number) => {
+    const i = table.findIndex(([d]) => d >= distanceMpc)
+    if (i < 0 || distanceMpc < 0) return Number.NaN
+    if (i === 0) return 0
+    const [[d0, v0], [d1, v1]] = [table[i - 1], table[i]]
+    return v0 + ((v1 - v0) * (distanceMpc - d0)) / (d1 - d0)
+  }
 }
 
 type GalaxySample = {
@@ -192,6 +736,32 @@ type GalaxySample = {
   velocityKms: number
 }
 
+// Catalogue designations compared without case, spaces, punctuation or leading zeros, so
+// "ngc 224" finds NGC0224 and "ESO 409-15" finds ESO409-015.
+function galaxySearchKey(name: string) {
+  return name
+    .toUpperCase()
+    .replace(/\d+/g, (digits) => digits.replace(/^0+(?=\d)/, ''))
+    .replace(/[^A-Z0-9]/g, '')
+}
+
+// Exact designations first, then prefix matches in catalogue (distance) order.
+function searchGalaxies(samples: GalaxySample[], keys: string[], query: string, limit = 8) {
+  const key = galaxySearchKey(query)
+  if (!key) return []
+  const exact: GalaxySample[] = []
+  const partial: GalaxySample[] = []
+  for (let i = 0; i < samples.length; i++) {
+    if (keys[i] === key) exact.push(samples[i])
+    else if (keys[i].startsWith(key) && partial.length < limit) partial.push(samples[i])
+  }
+  return [...exact, ...partial].slice(0, limit)
+}
+
+function formatGalaxyLabel(sample: GalaxySample) {
+  return `${sample.name} · ${sample.distanceMpc.toFixed(1)} Mpc · ${sample.velocityKms.toFixed(0)} km/s`
+}
+
 function hashString(value: string) {
   let hash = 2166136261
   for (let i = 0; i < value.length; i++) {
@@ -252,240 +822,3181 @@ function makeGlowSprite(
   return sprite
 }
 
-async function loadGalaxySamples() {
-  const url = `${import.meta.env.BASE_URL}data/galaxies.csv`
-  const res = await fetch(url, { cache: 'no-store' })
-  if (!res.ok) {
-    throw new Error(`Failed to load galaxy catalog: ${res.status}`)
-  }
+function makeLabelSprite(text: string, color = 'rgba(223, 231, 255, 0.86)', height = 1) {
+  const canvas = document.createElement('canvas')
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('Label texture context unavailable')
 
-  const text = await res.text()
-  const lines = text.trim().split(/\r?\n/)
-  lines.shift()
+  const font = '600 40px "Avenir Next", "Trebuchet MS", sans-serif'
+  ctx.font = font
+  canvas.width = Math.ceil(ctx.measureText(text).width) + 16
+  canvas.height = 56
+  ctx.font = font
+  ctx.fillStyle = color
+  ctx.textBaseline = 'middle'
+  ctx.fillText(text, 8, canvas.height / 2)
 
-  const samples: GalaxySample[] = []
-  for (const line of lines) {
-    const [name, mod0Raw, vgsrRaw] = line.split(',')
-    const mod0 = Number(mod0Raw)
-    const velocityKms = Number(vgsrRaw)
-    if (!name || !Number.isFinite(mod0) || !Number.isFinite(velocityKms)) continue
+  const texture = new THREE.CanvasTexture(canvas)
+  texture.colorSpace = THREE.SRGBColorSpace
+  const sprite = new THREE.Sprite(
+    new THREE.SpriteMaterial({ map: texture, transparent: true, depthWrite: false })
+  )
+  sprite.scale.set((height * canvas.width) / canvas.height, height, 1)
+  return sprite
+}
 
-    // Distance modulus -> parsec, then to megaparsec.
-    const distanceMpc = Math.pow(10, (mod0 - 25) / 5)
-    if (!Number.isFinite(distanceMpc)) continue
-    if (distanceMpc > 250 || Math.abs(velocityKms) > 15000) continue
+// How the solar system is laid out in a scene: where heliocentric positions land, how large
+// bodies are drawn and how far moons sit above their planets. `version` bumps whenever any of
+// it changes, so cached geometry knows to re-project.
+type SceneScale = {
+  version: number
+  // Heliocentric position in AU (ecliptic frame, as from helioToEclipticVec) to scene units.
+  place: (au: THREE.Vector3) => THREE.Vector3
+  // Scene units per AU for lengths measured around a body: moon heights, comet tails.
+  unitsPerAU: number
+  // Drawn radius in scene units for a body of the given true radius.
+  bodyRadius: (radiusKm: number) => number
+  // Factor on a moon's height above its planet's surface, given the system's legible factor.
+  moonHeight: (exaggeration: number) => number
+}
 
-    samples.push({ name, distanceMpc, velocityKms })
+function linearSceneScale(unitsPerAU: number, bodyRadius: (radiusKm: number) => number): SceneScale {
+  return {
+    version: 0,
+    place: (au) => au.clone().multiplyScalar(unitsPerAU),
+    unitsPerAU,
+    bodyRadius,
+    moonHeight: (exaggeration) => exaggeration,
   }
-
-  samples.sort((a, b) => a.distanceMpc - b.distanceMpc)
-  return samples
 }
 
-function drawMoonInset(
-  canvas: HTMLCanvasElement,
-  ctx: CanvasRenderingContext2D,
-  moonVec: AstroVector
-) {
-  const w = canvas.width
-  const h = canvas.height
-  ctx.clearRect(0, 0, w, h)
-
-  const bg = ctx.createLinearGradient(0, 0, w, h)
-  bg.addColorStop(0, 'rgba(7, 12, 24, 0.95)')
-  bg.addColorStop(1, 'rgba(3, 5, 11, 0.96)')
-  ctx.fillStyle = bg
-  ctx.fillRect(0, 0, w, h)
+type ScaleModeName = 'legible' | 'log' | 'true'
+
+type ScaleMode = {
+  label: string
+  distanceLabel: string
+  // Scene distance from the Sun for a heliocentric distance in AU; directions are kept.
+  distance: (au: number) => number
+  // Reference scale for sizes and moon heights: the local scale at 1 AU for non-linear modes.
+  unitsPerAU: number
+  bodyRadius: (radiusKm: number, sizeExaggeration: number) => number
+  // Whether moon heights use each system's legible factor (otherwise they are true).
+  exaggeratedMoons: boolean
+  defaultSize: number
+  minSize: number
+  maxSize: number
+}
 
-  ctx.strokeStyle = 'rgba(255, 255, 255, 0.08)'
-  ctx.lineWidth = 1
-  ctx.strokeRect(0.5, 0.5, w - 1, h - 1)
+const SCALE_MODES: Record<ScaleModeName, ScaleMode> = {
+  legible: {
+    label: 'Legible',
+    distanceLabel: 'square root, 1.2 units × √(r / 1 AU)',
+    distance: (au) => 1.2 * Math.sqrt(au),
+    unitsPerAU: 0.6,
+    // Radius ∝ R^0.25 squeezes the Sun-to-Mercury range into something a screen can hold.
+    bodyRadius: (radiusKm, size) => 0.08 * Math.pow(radiusKm / EARTH_RADIUS_KM, 0.25) * size,
+    exaggeratedMoons: true,
+    defaultSize: 1,
+    minSize: 0.25,
+    maxSize: 4,
+  },
+  log: {
+    label: 'Logarithmic distance',
+    distanceLabel: 'logarithmic, 2.5 units × log10(1 + r / 0.1 AU)',
+    distance: (au) => 2.5 * Math.log10(1 + au / 0.1),
+    // The slope of the distance law at 1 AU.
+    unitsPerAU: 2.5 / (Math.LN10 * 1.1),
+    bodyRadius: (radiusKm, size) => (radiusKm / AU_KM) * (2.5 / (Math.LN10 * 1.1)) * size,
+    exaggeratedMoons: true,
+    defaultSize: 700,
+    minSize: 1,
+    maxSize: 3000,
+  },
+  true: {
+    label: 'True scale',
+    distanceLabel: 'linear, 1 AU = 0.22 units',
+    distance: (au) => 0.22 * au,
+    unitsPerAU: 0.22,
+    bodyRadius: (radiusKm, size) => (radiusKm / AU_KM) * 0.22 * size,
+    exaggeratedMoons: false,
+    defaultSize: 1,
+    minSize: 1,
+    maxSize: 5000,
+  },
+}
 
-  const earthRadiusPx = 2.8
-  const moonRadiusPx = earthRadiusPx * (1737.4 / 6371)
-  const earthRadii = vectorLength(moonVec, AU_KM) / 6371
-  const distancePx = earthRadii * earthRadiusPx
+// Earth's Moon height factor in the exaggerated modes, alongside MOON_SYSTEMS' per-system ones.
+const EARTH_MOON_EXAGGERATION = 60
 
-  const earthX = 58
-  const centerY = h * 0.56
-  const moonX = earthX + distancePx
+type AnimatedSceneScale = SceneScale & {
+  mode: () => ScaleModeName
+  sizeExaggeration: () => number
+  set: (mode: ScaleModeName, sizeExaggeration: number) => void
+  tick: () => void
+}
 
-  // Scale ticks
-  ctx.strokeStyle = 'rgba(120, 150, 190, 0.22)'
-  ctx.beginPath()
-  for (let i = 0; i <= 6; i++) {
-    const x = earthX + i * 28
-    ctx.moveTo(x, centerY - 14)
-    ctx.lineTo(x, centerY + 14)
+// A SceneScale that eases from one mode to the next: positions blend linearly, sizes and moon
+// factors geometrically, since they span orders of magnitude between modes.
+function makeAnimatedSceneScale(mode: ScaleModeName, sizeExaggeration: number, transitionMs = 1500): AnimatedSceneScale {
+  let from = { mode, size: sizeExaggeration }
+  let to = { mode, size: sizeExaggeration }
+  let startMs = Number.NEGATIVE_INFINITY
+  let s = 1
+  const mixLinear = (a: number, b: number) => a + (b - a) * s
+  const mixLog = (a: number, b: number) => (a > 0 && b > 0 ? Math.exp(Math.log(a) + (Math.log(b) - Math.log(a)) * s) : mixLinear(a, b))
+  const moonFactor = (name: ScaleModeName, exaggeration: number) => (SCALE_MODES[name].exaggeratedMoons ? exaggeration : 1)
+
+  const scale: AnimatedSceneScale = {
+    version: 0,
+    place(au) {
+      const r = au.length()
+      if (r === 0) return au.clone()
+      const d = mixLinear(SCALE_MODES[from.mode].distance(r), SCALE_MODES[to.mode].distance(r))
+      return au.clone().multiplyScalar(d / r)
+    },
+    unitsPerAU: SCALE_MODES[mode].unitsPerAU,
+    bodyRadius: (radiusKm) =>
+      mixLog(SCALE_MODES[from.mode].bodyRadius(radiusKm, from.size), SCALE_MODES[to.mode].bodyRadius(radiusKm, to.size)),
+    moonHeight: (exaggeration) => mixLog(moonFactor(from.mode, exaggeration), moonFactor(to.mode, exaggeration)),
+    mode: () => to.mode,
+    sizeExaggeration: () => to.size,
+    set(nextMode, nextSize) {
+      if (nextMode !== to.mode) {
+        from = { ...to }
+        to = { mode: nextMode, size: nextSize }
+        startMs = performance.now()
+        s = 0
+      } else if (nextSize !== to.size) {
+        // Slider drags apply at once; only mode switches fly.
+        to.size = nextSize
+        if (s >= 1) from.size = nextSize
+        scale.version++
+      }
+    },
+    tick() {
+      if (s >= 1) return
+      const k = clamp((performance.now() - startMs) / transitionMs, 0, 1)
+      s = k * k * (3 - 2 * k)
+      scale.unitsPerAU = mixLog(SCALE_MODES[from.mode].unitsPerAU, SCALE_MODES[to.mode].unitsPerAU)
+      if (k >= 1) from = { ...to }
+      scale.version++
+    },
   }
-  ctx.stroke()
+  return scale
+}
 
-  // Earth -> Moon line
-  ctx.strokeStyle = 'rgba(153, 201, 255, 0.38)'
-  ctx.lineWidth = 1.4
-  ctx.beginPath()
-  ctx.moveTo(earthX + earthRadiusPx, centerY)
-  ctx.lineTo(moonX - moonRadiusPx, centerY)
-  ctx.stroke()
+type FrameName = 'heliocentric' | 'geocentric' | 'barycentric' | 'corotating'
 
-  // Earth
-  const earthGlow = ctx.createRadialGradient(
-    earthX - 1,
-    centerY - 1,
-    1,
-    earthX,
-    centerY,
-    earthRadiusPx * 3.5
-  )
-  earthGlow.addColorStop(0, 'rgba(120, 190, 255, 0.9)')
-  earthGlow.addColorStop(1, 'rgba(40, 90, 160, 0.05)')
-  ctx.fillStyle = earthGlow
-  ctx.beginPath()
-  ctx.arc(earthX, centerY, earthRadiusPx * 3.2, 0, Math.PI * 2)
-  ctx.fill()
+const REFERENCE_FRAMES: Record<FrameName, { label: string; origin: string }> = {
+  heliocentric: { label: 'Heliocentric', origin: 'the Sun' },
+  geocentric: { label: 'Geocentric', origin: 'Earth' },
+  barycentric: { label: 'Barycentric (SSB)', origin: 'the barycentre' },
+  corotating: { label: 'Co-rotating Earth–Sun', origin: 'the Sun' },
+}
 
-  ctx.fillStyle = 'rgba(115, 186, 255, 0.96)'
-  ctx.beginPath()
-  ctx.arc(earthX, centerY, earthRadiusPx, 0, Math.PI * 2)
-  ctx.fill()
+// The frame the scene is drawn in. Positions come in heliocentric (ecliptic, AU, scene axes)
+// and are shifted to the frame's origin and, for the co-rotating frame, turned about the
+// ecliptic pole so the Sun–Earth line stays on +X. `version` bumps on a switch.
+type SceneFrame = {
+  version: number
+  name: () => FrameName
+  set: (name: FrameName) => void
+  // False only for the heliocentric frame, where nothing about the frame changes with time.
+  moving: () => boolean
+  fromHelio: (au: THREE.Vector3, date: Date) => THREE.Vector3
+  rotation: (date: Date) => THREE.Quaternion
+}
 
-  // Moon
-  ctx.fillStyle = 'rgba(222, 222, 228, 0.96)'
-  ctx.beginPath()
-  ctx.arc(moonX, centerY, moonRadiusPx, 0, Math.PI * 2)
-  ctx.fill()
+function makeSceneFrame(initial: FrameName = 'heliocentric'): SceneFrame {
+  let current = initial
+  // Orbit paths transform hundreds of points per frame at one date, so keep the last transform.
+  let cached = { key: '', origin: new THREE.Vector3(), rotation: new THREE.Quaternion() }
+  const yAxis = new THREE.Vector3(0, 1, 0)
+
+  const transform = (date: Date) => {
+    const key = `${current}|${date.getTime()}`
+    if (key === cached.key) return cached
+    const origin = new THREE.Vector3()
+    const rotation = new THREE.Quaternion()
+    if (current === 'geocentric') origin.copy(helioToEclipticVec(HelioVector(Body.Earth, date)))
+    if (current === 'barycentric') origin.copy(helioToEclipticVec(HelioVector(Body.SSB, date)))
+    if (current === 'corotating') {
+      const earth = helioToEclipticVec(HelioVector(Body.Earth, date))
+      rotation.setFromAxisAngle(yAxis, Math.atan2(earth.z, earth.x))
+    }
+    cached = { key, origin, rotation }
+    return cached
+  }
 
-  ctx.fillStyle = 'rgba(255, 255, 255, 0.92)'
-  ctx.font = '12px "Avenir Next", "Trebuchet MS", sans-serif'
-  ctx.fillText('Moon inset, true scale', 12, 18)
-  ctx.fillStyle = 'rgba(223, 231, 255, 0.78)'
-  ctx.font = '11px "Avenir Next", "Trebuchet MS", sans-serif'
-  ctx.fillText(`1 Earth radius = ${earthRadiusPx.toFixed(1)} px`, 12, 35)
-  ctx.fillText(`Moon distance = ${earthRadii.toFixed(1)} Earth radii`, 12, h - 14)
+  const frame: SceneFrame = {
+    version: 0,
+    name: () => current,
+    set(name) {
+      if (name === current) return
+      current = name
+      frame.version++
+    },
+    moving: () => current !== 'heliocentric',
+    fromHelio(au, date) {
+      const { origin, rotation } = transform(date)
+      return au.clone().sub(origin).applyQuaternion(rotation)
+    },
+    rotation: (date) => transform(date).rotation.clone(),
+  }
+  return frame
+}
 
-  ctx.strokeStyle = 'rgba(255, 255, 255, 0.11)'
-  ctx.lineWidth = 1
-  ctx.beginPath()
-  ctx.moveTo(earthX, centerY + 18)
-  ctx.lineTo(earthX + earthRadiusPx * 10, centerY + 18)
-  ctx.stroke()
-  ctx.fillText('10 Earth radii', earthX, centerY + 34)
+type TrailSpan = 'off' | '30d' | '90d' | '1y' | 'orbit'
+
+const TRAIL_SPANS: Record<TrailSpan, { label: string; days: number | null }> = {
+  off: { label: 'Off', days: 0 },
+  '30d': { label: 'Last 30 days', days: 30 },
+  '90d': { label: 'Last 90 days', days: 90 },
+  '1y': { label: 'Last year', days: 365.25 },
+  orbit: { label: 'One orbit', days: null },
 }
 
-type HubbleFit = {
-  slope: number
-  intercept: number
-  sampleCount: number
-  minDistanceMpc: number
+// Sim-time span of a trail in ms; `orbitDays` stands in for "one orbit".
+function trailSpanMs(span: TrailSpan, orbitDays: number) {
+  return (TRAIL_SPANS[span].days ?? orbitDays) * DAY_MS
 }
 
-function fitHubbleSample(samples: GalaxySample[], minDistanceMpc = 5): HubbleFit {
-  const subset = samples.filter((sample) => sample.distanceMpc > minDistanceMpc)
-  if (subset.length === 0) {
-    return { slope: 67.4, intercept: 0, sampleCount: 0, minDistanceMpc }
-  }
+type SimTrail = {
+  line: THREE.Line
+  // `head` is the body's drawn position, so the trail always ends on it.
+  update: (sim: Date, spanMs: number, head: THREE.Vector3) => void
+}
 
-  let sumX = 0
-  let sumY = 0
-  for (const sample of subset) {
-    sumX += sample.distanceMpc
-    sumY += sample.velocityKms
+// Trail samples are at most this far apart in sim time, so geocentric loops (a few months long)
+// are not aliased away on long spans, up to a sample cap that Pluto's orbit just fits under.
+const TRAIL_MAX_STEP_MS = 30 * DAY_MS
+const TRAIL_MAX_POINTS = 3200
+
+// A trail over the last `spanMs` of sim time, sampled on a fixed grid of sim-time steps so it
+// looks the same at any speed and redraws at once after a jump or reversal. Samples are kept in
+// frame coordinates (AU) and re-placed through `scale` as it changes; a frame switch resamples.
+// It fades from the body back to the oldest sample.
+function makeSimTrail(
+  helioAt: (date: Date) => THREE.Vector3,
+  scale: SceneScale,
+  frame: SceneFrame,
+  color: number,
+  opacity = 0.55,
+  minPoints = 240
+): SimTrail {
+  const positions = new Float32Array((TRAIL_MAX_POINTS + 1) * 3)
+  const colors = new Float32Array((TRAIL_MAX_POINTS + 1) * 4)
+  const rgb = new THREE.Color(color)
+  let points = 0
+  const resize = (count: number) => {
+    points = count
+    for (let i = 0; i <= points; i++) {
+      colors.set([rgb.r, rgb.g, rgb.b, opacity * Math.pow(i / points, 1.6)], 4 * i)
+    }
+    geom.setDrawRange(0, points + 1)
+    geom.attributes.color.needsUpdate = true
   }
+  const geom = new THREE.BufferGeometry()
+  geom.setAttribute('position', new THREE.BufferAttribute(positions, 3))
+  geom.setAttribute('color', new THREE.BufferAttribute(colors, 4))
+  const line = new THREE.Line(geom, new THREE.LineBasicMaterial({ vertexColors: true, transparent: true, depthWrite: false }))
+  line.frustumCulled = false
 
-  const meanX = sumX / subset.length
-  const meanY = sumY / subset.length
+  // Frame-space samples by grid index (sample time = index × step).
+  const samples = new Map<number, THREE.Vector3>()
+  let samplesKey = ''
+  let layoutKey = ''
 
-  let sxx = 0
-  let sxy = 0
-  for (const sample of subset) {
-    const dx = sample.distanceMpc - meanX
-    sxx += dx * dx
-    sxy += dx * (sample.velocityKms - meanY)
+  return {
+    line,
+    update(sim, spanMs, head) {
+      line.visible = spanMs > 0
+      if (!line.visible) return
+      const count = clamp(Math.ceil(spanMs / TRAIL_MAX_STEP_MS), minPoints, TRAIL_MAX_POINTS)
+      if (count !== points) resize(count)
+      const step = spanMs / points
+      const key = `${frame.version}|${step}`
+      if (key !== samplesKey) {
+        samplesKey = key
+        samples.clear()
+      }
+
+      // The newest grid sample at or before the sim time, then `points - 1` older ones.
+      const newest = Math.floor(sim.getTime() / step)
+      const oldest = newest - points + 1
+      const nextLayout = `${key}|${newest}|${scale.version}`
+      if (nextLayout !== layoutKey) {
+        layoutKey = nextLayout
+        for (const index of samples.keys()) if (index < oldest || index > newest) samples.delete(index)
+        for (let i = 0; i < points; i++) {
+          const index = oldest + i
+          let sample = samples.get(index)
+          if (!sample) {
+            const date = new Date(index * step)
+            sample = frame.fromHelio(helioAt(date), date)
+            samples.set(index, sample)
+          }
+          positions.set(scale.place(sample).toArray(), 3 * i)
+        }
+      }
+      positions.set(head.toArray(), 3 * points)
+      geom.attributes.position.needsUpdate = true
+    },
   }
+}
 
-  const slope = sxx > 0 ? sxy / sxx : 67.4
-  const intercept = meanY - slope * meanX
-  return { slope, intercept, sampleCount: subset.length, minDistanceMpc }
+type OrbitPath = {
+  group: THREE.Group
+  update: (sim: Date, showMarkers: boolean) => void
 }
 
-function buildHubbleChartSvg(samples: GalaxySample[], fit: HubbleFit) {
-  if (samples.length === 0) {
-    return '<div class="chart-empty">No galaxy sample loaded.</div>'
-  }
-
-  const width = 300
-  const height = 92
-  const padL = 28
-  const padR = 10
-  const padT = 8
-  const padB = 18
-
-  const subsetCount = Math.min(samples.length, 150)
-  const step = Math.max(1, Math.floor(samples.length / subsetCount))
-  const subset = samples.filter((_, i) => i % step === 0).slice(0, subsetCount)
-
-  const xMax = Math.max(20, ...subset.map((s) => s.distanceMpc))
-  const yMax = Math.max(
-    1500,
-    ...subset.map((s) => Math.abs(s.velocityKms)),
-    Math.abs(fit.intercept),
-    Math.abs(fit.slope * xMax + fit.intercept)
+function makeOrbitPath(body: Body, scale: SceneScale, frame: SceneFrame, markerRadius: number, samples = 360): OrbitPath {
+  const periodMs = PlanetOrbitalPeriod(body) * DAY_MS
+  const group = new THREE.Group()
+
+  const positions = new Float32Array(samples * 3)
+  const geom = new THREE.BufferGeometry()
+  geom.setAttribute('position', new THREE.BufferAttribute(positions, 3))
+  const line = new THREE.LineLoop(
+    geom,
+    new THREE.LineBasicMaterial({ color: 0x3d5a80, transparent: true, opacity: 0.55 })
   )
+  group.add(line)
+
+  // Optional apsis and node markers, placed from the sampled path itself.
+  const markers = new THREE.Group()
+  markers.visible = false
+  group.add(markers)
+  const makeMarker = (color: number) => {
+    const marker = new THREE.Mesh(
+      new THREE.SphereGeometry(markerRadius, 12, 12),
+      new THREE.MeshBasicMaterial({ color })
+    )
+    markers.add(marker)
+    return marker
+  }
+  const perihelion = makeMarker(0xffb347)
+  const aphelion = makeMarker(0x6fa8dc)
+  const ascendingNode = makeMarker(0x8fe388)
+  const descendingNode = makeMarker(0xe06c75)
+
+  let epochMs = Number.NaN
+  let layoutKey = ''
+  // The sampled path and marker places in AU, projected through the frame and `scale` whenever
+  // either changes. Outside the heliocentric frame that is every frame: the path is the orbit
+  // as it lies at the sim time, carried along with the Sun.
+  let points: THREE.Vector3[] = []
+  const markerPoints = new Map<THREE.Mesh, THREE.Vector3>()
+
+  function resample(centerMs: number) {
+    epochMs = centerMs
+    const startMs = centerMs - periodMs / 2
+    points = []
+    for (let i = 0; i < samples; i++) {
+      const hv = HelioVector(body, new Date(startMs + (i / samples) * periodMs))
+      points.push(helioToEclipticVec(hv))
+    }
+
+    let minIndex = 0
+    let maxIndex = 0
+    let maxHeight = 0
+    for (let i = 0; i < samples; i++) {
+      const p = points[i]
+      if (p.lengthSq() < points[minIndex].lengthSq()) minIndex = i
+      if (p.lengthSq() > points[maxIndex].lengthSq()) maxIndex = i
+      maxHeight = Math.max(maxHeight, Math.abs(p.y))
+    }
+    markerPoints.clear()
+    markerPoints.set(perihelion, points[minIndex])
+    markerPoints.set(aphelion, points[maxIndex])
+
+    // Ecliptic north maps to +Y, so nodes are where the path crosses y = 0.
+    // Earth's own orbit defines the ecliptic, so it has no meaningful nodes.
+    const inclined = maxHeight > points[maxIndex].length() * 1e-3
+    ascendingNode.visible = false
+    descendingNode.visible = false
+    for (let i = 0; inclined && i < samples; i++) {
+      const a = points[i]
+      const b = points[(i + 1) % samples]
+      if ((a.y < 0) === (b.y < 0)) continue
+      const node = a.y < 0 ? ascendingNode : descendingNode
+      markerPoints.set(node, a.clone().lerp(b, a.y / (a.y - b.y)))
+      node.visible = true
+    }
+  }
+
+  function project(sim: Date) {
+    layoutKey = `${scale.version}|${frame.version}`
+    const place = (point: THREE.Vector3) => scale.place(frame.fromHelio(point, sim))
+    points.forEach((point, i) => {
+      const p = place(point)
+      positions[3 * i + 0] = p.x
+      positions[3 * i + 1] = p.y
+      positions[3 * i + 2] = p.z
+    })
+    geom.attributes.position.needsUpdate = true
+    geom.computeBoundingSphere()
+    for (const [marker, point] of markerPoints) marker.position.copy(place(point))
+  }
+
+  return {
+    group,
+    update(sim, showMarkers) {
+      // The path spans one period centred on the sim time. Resample after a quarter
+      // orbit of drift so time jumps and slow perturbations stay in sync with the planet.
+      const resampled = !(Math.abs(sim.getTime() - epochMs) < periodMs / 4)
+      if (resampled) resample(sim.getTime())
+      if (resampled || frame.moving() || layoutKey !== `${scale.version}|${frame.version}`) project(sim)
+      markers.visible = showMarkers
+    },
+  }
+}
+
+type SmallBody = {
+  name: string
+  kind: 'asteroid' | 'comet'
+  q: number // perihelion distance, AU
+  e: number
+  i: number // degrees, J2000 ecliptic
+  node: number
+  peri: number
+  tp: number // perihelion time, JD (TDB)
+}
+
+const GAUSS_K = 0.01720209895 // rad/day
+
+// Reads a JPL SBDB query CSV export. Rows may give a/ma at an epoch or q/tp directly.
+async function loadSmallBodies() {
+  const url = `${import.meta.env.BASE_URL}data/small-bodies.csv`
+  const res = await fetch(url)
+  if (!res.ok) {
+    throw new Error(`Failed to load small bodies: ${res.status}`)
+  }
+
+  const text = await res.text()
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() && !line.startsWith('#'))
+  const header = (lines.shift() ?? '').split(',').map((h) => h.trim().replace(/^"|"$/g, ''))
+
+  const bodies: SmallBody[] = []
+  for (const line of lines) {
+    const cells = line.split(',').map((c) => c.trim().replace(/^"|"$/g, ''))
+    const row = new Map(header.map((key, i) => [key, cells[i] ?? '']))
+    const num = (key: string) => {
+      const raw = row.get(key)
+      return raw ? Number(raw) : Number.NaN
+    }
+
+    const e = num('e')
+    let q = num('q')
+    let tp = num('tp')
+    const a = num('a')
+    if (Number.isNaN(q)) q = a * (1 - e)
+    if (Number.isNaN(tp)) {
+      // Back the perihelion time out of the mean anomaly at the epoch.
+      const meanMotionDegPerDay = (GAUSS_K / Math.pow(a, 1.5)) * (180 / Math.PI)
+      tp = num('epoch') - num('ma') / meanMotionDegPerDay
+    }
+
+    const name = row.get('full_name') ?? ''
+    const body: SmallBody = {
+      name: name.replace(/^\d+\s+/, ''),
+      kind: (row.get('kind') ?? '').startsWith('c') || /^[PCDI]\/|^\d+[PD]\//.test(name) ? 'comet' : 'asteroid',
+      q,
+      e,
+      i: num('i'),
+      node: num('om'),
+      peri: num('w'),
+      tp,
+    }
+    if (!body.name || ![body.q, body.e, body.i, body.node, body.peri, body.tp].every(Number.isFinite)) continue
+    bodies.push(body)
+  }
+  return bodies
+}
+
+// Two-body Kepler propagation, returned as a J2000 equatorial vector like HelioVector's.
+function smallBodyHelioVector(body: SmallBody, date: Date) {
+  const { q, e } = body
+  const dt = date.getTime() / DAY_MS + 2440587.5 - body.tp
+  let x: number
+  let y: number
+  if (e < 1) {
+    const a = q / (1 - e)
+    const M = ((GAUSS_K * dt) / Math.pow(a, 1.5)) % (2 * Math.PI)
+    let E = e > 0.8 ? Math.PI : M
+    for (let k = 0; k < 50; k++) {
+      const step = (E - e * Math.sin(E) - M) / (1 - e * Math.cos(E))
+      E -= step
+      if (Math.abs(step) < 1e-12) break
+    }
+    x = a * (Math.cos(E) - e)
+    y = a * Math.sqrt(1 - e * e) * Math.sin(E)
+  } else if (e > 1) {
+    const a = q / (e - 1)
+    const M = (GAUSS_K * dt) / Math.pow(a, 1.5)
+    let H = Math.asinh(M / e)
+    for (let k = 0; k < 50; k++) {
+      const step = (e * Math.sinh(H) - H - M) / (e * Math.cosh(H) - 1)
+      H -= step
+      if (Math.abs(step) < 1e-12) break
+    }
+    x = a * (e - Math.cosh(H))
+    y = a * Math.sqrt(e * e - 1) * Math.sinh(H)
+  } else {
+    // Barker's equation: s = tan(ν/2) solves s³ + 3s = W.
+    const W = (3 * GAUSS_K * dt) / Math.sqrt(2 * q * q * q)
+    const root = Math.cbrt(W / 2 + Math.sqrt((W * W) / 4 + 1))
+    const s = root - 1 / root
+    x = q * (1 - s * s)
+    y = 2 * q * s
+  }
+
+  const toRad = Math.PI / 180
+  const [cosO, sinO] = [Math.cos(body.node * toRad), Math.sin(body.node * toRad)]
+  const [cosW, sinW] = [Math.cos(body.peri * toRad), Math.sin(body.peri * toRad)]
+  const [cosI, sinI] = [Math.cos(body.i * toRad), Math.sin(body.i * toRad)]
+  const ex = x * (cosO * cosW - sinO * sinW * cosI) - y * (cosO * sinW + sinO * cosW * cosI)
+  const ey = x * (sinO * cosW + cosO * sinW * cosI) - y * (sinO * sinW - cosO * cosW * cosI)
+  const ez = x * sinW * sinI + y * cosW * sinI
+
+  // J2000 ecliptic -> J2000 equator, so the result goes through helioToEclipticVec like the planets.
+  const eps = 23.4392911 * toRad
+  return new AstroVector(ex, ey * Math.cos(eps) - ez * Math.sin(eps), ey * Math.sin(eps) + ez * Math.cos(eps), MakeTime(date))
+}
+
+type SmallBodyLayer = {
+  group: THREE.Group
+  hoverTargets: HoverTarget[]
+  update: (sim: Date, visible: boolean, trailSpan: TrailSpan) => void
+}
+
+// Markers, trails and (for comets) an anti-sunward tail that grows as 1/r² inside 5 AU.
+// "One orbit" trails on open orbits cover ten years instead.
+function makeSmallBodyLayer(
+  smallBodies: SmallBody[],
+  scale: SceneScale,
+  frame: SceneFrame,
+  markerRadius: number
+): SmallBodyLayer {
+  const group = new THREE.Group()
+  const hoverTargets: SmallBodyLayer['hoverTargets'] = []
+
+  const items = smallBodies.map((body) => {
+    const color = body.kind === 'comet' ? 0x9fe8ff : 0xc2a98a
+    const marker = new THREE.Mesh(
+      new THREE.SphereGeometry(markerRadius, 12, 12),
+      new THREE.MeshBasicMaterial({ color })
+    )
+    // Invisible but raycastable, so the tiny markers are easy to hover.
+    marker.add(new THREE.Mesh(new THREE.SphereGeometry(markerRadius * 4, 8, 8), new THREE.MeshBasicMaterial({ visible: false })))
+    group.add(marker)
+    hoverTargets.push({
+      obj: marker,
+      label: `${body.name} (${body.kind})`,
+      observed: {
+        name: body.name,
+        kind: body.kind === 'comet' ? 'Comet' : 'Minor body',
+        helio: (date) => smallBodyHelioVector(body, date),
+      },
+    })
+
+    const trail = makeSimTrail((date) => helioToEclipticVec(smallBodyHelioVector(body, date)), scale, frame, color, 0.4, 120)
+    group.add(trail.line)
+    const orbitDays = body.e < 1 ? 365.25 * Math.pow(body.q / (1 - body.e), 1.5) : 3652.5
+
+    let tail: THREE.Mesh | null = null
+    if (body.kind === 'comet') {
+      // Unit cone with its apex at the origin, opening along -Y.
+      const tailGeom = new THREE.ConeGeometry(0.18, 1, 16, 1, true)
+      tailGeom.translate(0, -0.5, 0)
+      tail = new THREE.Mesh(
+        tailGeom,
+        new THREE.MeshBasicMaterial({
+          color: 0xbfefff,
+          transparent: true,
+          opacity: 0.35,
+          side: THREE.DoubleSide,
+          depthWrite: false,
+          blending: THREE.AdditiveBlending,
+        })
+      )
+      group.add(tail)
+    }
+    return { body, marker, trail, orbitDays, tail }
+  })
+
+  const down = new THREE.Vector3(0, -1, 0)
+
+  return {
+    group,
+    hoverTargets,
+    update(sim, visible, trailSpan) {
+      group.visible = visible
+      if (!visible) return
+      const sunInFrame = frame.fromHelio(new THREE.Vector3(), sim)
+      for (const item of items) {
+        const au = helioToEclipticVec(smallBodyHelioVector(item.body, sim))
+        const p = scale.place(frame.fromHelio(au, sim))
+        item.marker.position.copy(p)
+        item.trail.update(sim, trailSpanMs(trailSpan, item.orbitDays), p)
+
+        if (item.tail) {
+          const rAU = au.length()
+          item.tail.visible = rAU < 5
+          const lengthAU = Math.min(1, 0.25 / (rAU * rAU))
+          item.tail.position.copy(p)
+          item.tail.quaternion.setFromUnitVectors(down, unit(frame.fromHelio(au, sim).sub(sunInFrame)))
+          item.tail.scale.setScalar(lengthAU * scale.unitsPerAU)
+        }
+      }
+    },
+  }
+}
+
+type MoonSystem = {
+  parent: Body
+  name: string
+  radiusKm: number // equatorial
+  // Moon heights above the cloud tops are multiplied by this in the 3D views, unless the
+  // scale mode draws them true.
+  exaggeration: number
+  // Oblateness J2, referred to `radiusKm`; it sets how fast the moons' nodes and apsides precess.
+  j2: number
+  // IAU pole in ICRF degrees, T in Julian centuries from J2000.
+  pole: (T: number) => { ra: number; dec: number }
+}
+
+const MOON_SYSTEMS: MoonSystem[] = [
+  {
+    parent: Body.Mars,
+    name: 'Mars',
+    radiusKm: 3396.2,
+    exaggeration: 600,
+    j2: 1.9614e-3,
+    pole: (T) => ({ ra: 317.68143 - 0.1061 * T, dec: 52.8865 - 0.0609 * T }),
+  },
+  {
+    parent: Body.Jupiter,
+    name: 'Jupiter',
+    radiusKm: 71492,
+    exaggeration: 30,
+    j2: 1.4697e-2,
+    pole: (T) => ({ ra: 268.056595 - 0.006499 * T, dec: 64.495303 + 0.002413 * T }),
+  },
+  {
+    parent: Body.Saturn,
+    name: 'Saturn',
+    radiusKm: 60268,
+    exaggeration: 25,
+    j2: 1.6324e-2,
+    pole: (T) => ({ ra: 40.589 - 0.036 * T, dec: 83.537 - 0.004 * T }),
+  },
+  {
+    parent: Body.Uranus,
+    name: 'Uranus',
+    radiusKm: 25559,
+    exaggeration: 80,
+    j2: 3.5132e-3,
+    pole: () => ({ ra: 257.311, dec: -15.175 }),
+  },
+  {
+    parent: Body.Neptune,
+    name: 'Neptune',
+    radiusKm: 24764,
+    exaggeration: 80,
+    j2: 3.5364e-3,
+    pole: (T) => {
+      const N = ((357.85 + 52.316 * T) * Math.PI) / 180
+      return { ra: 299.36 + 0.7 * Math.sin(N), dec: 43.46 - 0.51 * Math.cos(N) }
+    },
+  },
+]
+
+type PlanetMoon = {
+  name: string
+  system: MoonSystem
+  radiusKm: number
+  // Mean elements in the parent's equator frame (degrees, km, days); absent for the
+  // Galilean moons, which come from astronomy-engine's JupiterMoons.
+  orbit?: { aKm: number; e: number; w: number; M: number; i: number; node: number; periodDays: number }
+}
+
+const GALILEAN_MOONS = [
+  { name: 'Io', radiusKm: 1821.6 },
+  { name: 'Europa', radiusKm: 1560.8 },
+  { name: 'Ganymede', radiusKm: 2631.2 },
+  { name: 'Callisto', radiusKm: 2410.3 },
+]
+
+async function loadPlanetMoons() {
+  const jupiter = MOON_SYSTEMS.find((s) => s.parent === Body.Jupiter)!
+  const moons: PlanetMoon[] = GALILEAN_MOONS.map((m) => ({ ...m, system: jupiter }))
+
+  const url = `${import.meta.env.BASE_URL}data/moon-elements.csv`
+  const res = await fetch(url)
+  if (!res.ok) {
+    throw new Error(`Failed to load moon elements: ${res.status}`)
+  }
+
+  const text = await res.text()
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() && !line.startsWith('#'))
+  lines.shift()
+  for (const line of lines) {
+    const [name, parent, ...rest] = line.split(',').map((c) => c.trim())
+    const [aKm, e, w, M, i, node, periodDays, radiusKm] = rest.map(Number)
+    const system = MOON_SYSTEMS.find((s) => s.name === parent)
+    if (!name || !system || ![aKm, e, w, M, i, node, periodDays, radiusKm].every(Number.isFinite)) continue
+    moons.push({ name, system, radiusKm, orbit: { aKm, e, w, M, i, node, periodDays } })
+  }
+  return moons
+}
+
+// Parent-centred J2000 equatorial vectors in AU, in the same order as `moons`.
+function planetMoonVectors(moons: PlanetMoon[], date: Date) {
+  const time = MakeTime(date)
+  const jupiterMoons = moons.some((m) => !m.orbit) ? JupiterMoons(time) : null
+  const toRad = Math.PI / 180
+
+  return moons.map((moon) => {
+    if (!moon.orbit) {
+      const key = moon.name.toLowerCase() as 'io' | 'europa' | 'ganymede' | 'callisto'
+      const s = jupiterMoons![key]
+      return new AstroVector(s.x, s.y, s.z, time)
+    }
+
+    const { aKm, e, i, periodDays } = moon.orbit
+    const days = time.tt
+    // The tabulated period is anomalistic; the parent's J2 turns the node back and the apsides
+    // forward (secular rates to first order, ignoring the Sun and the other moons).
+    const meanMotion = 360 / periodDays
+    const j2Rate = (meanMotion * moon.system.j2 * (moon.system.radiusKm / aKm) ** 2) / (1 - e * e) ** 2
+    const cosIncl = Math.cos(i * toRad)
+    const node = moon.orbit.node - 1.5 * j2Rate * cosIncl * days
+    const w = moon.orbit.w + 0.75 * j2Rate * (5 * cosIncl * cosIncl - 1) * days
+    const meanAnomaly = (((moon.orbit.M + meanMotion * days) % 360) * toRad)
+    let E = meanAnomaly
+    for (let k = 0; k < 20; k++) {
+      const step = (E - e * Math.sin(E) - meanAnomaly) / (1 - e * Math.cos(E))
+      E -= step
+      if (Math.abs(step) < 1e-12) break
+    }
+    const x = (aKm / AU_KM) * (Math.cos(E) - e)
+    const y = (aKm / AU_KM) * Math.sqrt(1 - e * e) * Math.sin(E)
+
+    const [cosO, sinO] = [Math.cos(node * toRad), Math.sin(node * toRad)]
+    const [cosW, sinW] = [Math.cos(w * toRad), Math.sin(w * toRad)]
+    const [cosI, sinI] = [Math.cos(i * toRad), Math.sin(i * toRad)]
+    const px = x * (cosO * cosW - sinO * sinW * cosI) - y * (cosO * sinW + sinO * cosW * cosI)
+    const py = x * (sinO * cosW + cosO * sinW * cosI) - y * (sinO * sinW - cosO * cosW * cosI)
+    const pz = x * sinW * sinI + y * cosW * sinI
+
+    // Equator frame -> ICRF: z is the pole, x the equator's ascending node on the ICRF equator.
+    const pole = moon.system.pole(days / 36525)
+    const [ra, dec] = [pole.ra * toRad, pole.dec * toRad]
+    const zAxis = [Math.cos(dec) * Math.cos(ra), Math.cos(dec) * Math.sin(ra), Math.sin(dec)]
+    const xAxis = [-Math.sin(ra), Math.cos(ra), 0]
+    const yAxis = [
+      zAxis[1] * xAxis[2] - zAxis[2] * xAxis[1],
+      zAxis[2] * xAxis[0] - zAxis[0] * xAxis[2],
+      zAxis[0] * xAxis[1] - zAxis[1] * xAxis[0],
+    ]
+    const [vx, vy, vz] = [0, 1, 2].map((k) => px * xAxis[k] + py * yAxis[k] + pz * zAxis[k])
+    return new AstroVector(vx, vy, vz, time)
+  })
+}
+
+// True when a body at `v` (AU from the planet) sits inside the planet's shadow, treated as a
+// cylinder of the planet's radius.
+function inCylindricalShadow(v: THREE.Vector3, antiSun: THREE.Vector3, radiusKm: number) {
+  const along = v.dot(antiSun)
+  if (along <= 0) return false
+  return v.clone().addScaledVector(antiSun, -along).length() < radiusKm / AU_KM
+}
+
+type MoonSystemLayer = {
+  group: THREE.Group
+  hoverTargets: HoverTarget[]
+  update: (sim: Date, visible: boolean) => void
+}
+
+// Moons around their displayed parents. Heights above the cloud tops are scaled per system
+// by `scale.moonHeight`, so every moon clears the enlarged planet while directions stay true
+// and transits and occultations still play out against the planet mesh.
+function makeMoonSystemLayer(
+  moons: PlanetMoon[],
+  scale: SceneScale,
+  frame: SceneFrame,
+  parents: Map<Body, { obj: THREE.Object3D; radius: () => number }>,
+  markerRadius: number
+): MoonSystemLayer {
+  const group = new THREE.Group()
+  const hoverTargets: MoonSystemLayer['hoverTargets'] = []
+  const litColor = new THREE.Color(0xd8d2c8)
+  const eclipsedColor = new THREE.Color(0x2a2622)
+
+  const shown = moons.filter((moon) => parents.has(moon.system.parent))
+  const meshes = shown.map((moon) => {
+    const mesh = new THREE.Mesh(
+      new THREE.SphereGeometry(markerRadius, 16, 16),
+      new THREE.MeshStandardMaterial({ color: litColor, roughness: 0.9, metalness: 0 })
+    )
+    // The hit sphere keeps its size whatever scale the moon is drawn at.
+    const hit = new THREE.Mesh(new THREE.SphereGeometry(markerRadius * 3, 8, 8), new THREE.MeshBasicMaterial({ visible: false }))
+    hit.name = 'hit'
+    mesh.add(hit)
+    group.add(mesh)
+    hoverTargets.push({
+      obj: mesh,
+      label: `${moon.name} (moon of ${moon.system.name})`,
+      observed: {
+        name: moon.name,
+        kind: `Moon of ${moon.system.name}`,
+        radiusKm: moon.radiusKm,
+        helio: (date) => {
+          const planet = HelioVector(moon.system.parent, date)
+          const v = planetMoonVectors([moon], date)[0]
+          return new AstroVector(planet.x + v.x, planet.y + v.y, planet.z + v.z, v.t)
+        },
+      },
+    })
+    return mesh
+  })
+
+  return {
+    group,
+    hoverTargets,
+    update(sim, visible) {
+      group.visible = visible
+      if (!visible) return
+      const vectors = planetMoonVectors(shown, sim)
+      const turn = frame.rotation(sim)
+      const antiSun = new Map<Body, THREE.Vector3>()
+      shown.forEach((moon, index) => {
+        const { system } = moon
+        const parent = parents.get(system.parent)!
+        const v = astroToThreeVec(vectors[index])
+        if (!antiSun.has(system.parent)) antiSun.set(system.parent, unit(astroToThreeVec(HelioVector(system.parent, sim))))
+
+        const heightAU = v.length() - system.radiusKm / AU_KM
+        const distance = parent.radius() + heightAU * scale.unitsPerAU * scale.moonHeight(system.exaggeration)
+        const mesh = meshes[index]
+        mesh.position.copy(parent.obj.position).add(unit(helioToEclipticVec(vectors[index])).applyQuaternion(turn).multiplyScalar(distance))
+        const size = scale.bodyRadius(moon.radiusKm) / markerRadius
+        mesh.scale.setScalar(size)
+        mesh.getObjectByName('hit')!.scale.setScalar(1 / size)
+
+        const eclipsed = inCylindricalShadow(v, antiSun.get(system.parent)!, system.radiusKm)
+        ;(mesh.material as THREE.MeshStandardMaterial).color.copy(eclipsed ? eclipsedColor : litColor)
+      })
+    },
+  }
+}
+
+type MoonSystemView = {
+  name: string
+  radiusKm: number
+  state: 'clear' | 'transit' | 'occulted'
+  eclipsed: boolean
+  shadowOnDisc: boolean
+  // Sky-plane offsets from the planet in km, x east and y north, plus shadow-spot offsets.
+  x: number
+  y: number
+  shadowX: number
+  shadowY: number
+}
+
+// The system as seen from Earth: sky-plane offsets, which moons cross or hide behind the disc,
+// which are eclipsed, and where any shadows fall on the cloud tops.
+function moonSystemView(system: MoonSystem, moons: PlanetMoon[], date: Date): MoonSystemView[] {
+  const members = moons.filter((moon) => moon.system === system)
+  const vectors = planetMoonVectors(members, date)
+  const R = system.radiusKm / AU_KM
+  const los = unit(astroToThreeVec(GeoVector(system.parent, date, true)))
+  const antiSun = unit(astroToThreeVec(HelioVector(system.parent, date)))
+  const celestialNorth = new THREE.Vector3(0, 1, 0)
+  const north = unit(celestialNorth.clone().addScaledVector(los, -celestialNorth.dot(los)))
+  // astroToThreeVec swaps two axes, which flips cross products: los × north points east here.
+  const east = unit(new THREE.Vector3().crossVectors(los, celestialNorth))
+
+  return members.map((moon, index) => {
+    const v = astroToThreeVec(vectors[index])
+    const x = v.dot(east)
+    const y = v.dot(north)
+    const onDisc = Math.hypot(x, y) < R
+    const behind = v.dot(los) > 0
+
+    // Shadow cast sunward of the moon onto the near-Sun hemisphere.
+    const along = v.dot(antiSun)
+    const perp = v.clone().addScaledVector(antiSun, -along)
+    let shadowOnDisc = false
+    let shadowX = 0
+    let shadowY = 0
+    if (along < 0 && perp.length() < R) {
+      const spot = perp.clone().addScaledVector(antiSun, -Math.sqrt(R * R - perp.lengthSq()))
+      shadowOnDisc = spot.dot(los) < 0
+      shadowX = spot.dot(east) * AU_KM
+      shadowY = spot.dot(north) * AU_KM
+    }
+
+    return {
+      name: moon.name,
+      radiusKm: moon.radiusKm,
+      state: onDisc ? (behind ? 'occulted' : 'transit') : 'clear',
+      eclipsed: inCylindricalShadow(v, antiSun, system.radiusKm),
+      shadowOnDisc,
+      x: x * AU_KM,
+      y: y * AU_KM,
+      shadowX,
+      shadowY,
+    }
+  })
+}
+
+type Satellite = {
+  name: string
+  kind: 'station' | 'gnss' | 'other'
+  satrec: SatRec
+  epoch: Date
+}
+
+// Reads a CelesTrak export saved as public/data/satellites.txt: TLE text (with or without
+// name lines) or OMM JSON. Lines starting with '#' are comments.
+async function loadSatellites() {
+  const url = `${import.meta.env.BASE_URL}data/satellites.txt`
+  const res = await fetch(url)
+  if (!res.ok) {
+    throw new Error(`Failed to load satellites: ${res.status}`)
+  }
+
+  const text = (await res.text()).trim()
+  const records: Array<{ name: string; satrec: SatRec }> = []
+  if (text.startsWith('[') || text.startsWith('{')) {
+    const json = JSON.parse(text) as OMMJsonObject | OMMJsonObject[]
+    for (const omm of Array.isArray(json) ? json : [json]) {
+      records.push({ name: omm.OBJECT_NAME, satrec: json2satrec(omm) })
+    }
+  } else {
+    const lines = text.split(/\r?\n/).filter((line) => line.trim() && !line.startsWith('#'))
+    for (let i = 0; i < lines.length - 1; i++) {
+      if (!lines[i].startsWith('1 ') || !lines[i + 1].startsWith('2 ')) continue
+      const nameLine = i > 0 && !/^[12] /.test(lines[i - 1]) ? lines[i - 1] : ''
+      const name = nameLine.replace(/^0 /, '').trim() || `NORAD ${lines[i].slice(2, 7).trim()}`
+      records.push({ name, satrec: twoline2satrec(lines[i], lines[i + 1]) })
+      i++
+    }
+  }
+
+  return records
+    .filter((record) => !record.satrec.error)
+    .map(({ name, satrec }): Satellite => ({
+      name,
+      kind: /\bISS\b|ZARYA|TIANGONG|\bCSS\b/i.test(name)
+        ? 'station'
+        : /NAVSTAR|\bGPS\b|GLONASS|GALILEO|GSAT0|BEIDOU|QZS|IRNSS/i.test(name)
+          ? 'gnss'
+          : 'other',
+      satrec,
+      epoch: new Date((satrec.jdsatepoch - 2440587.5) * DAY_MS),
+    }))
+}
+
+// SGP4 position in the TEME frame, km; null once the model gives up (decay, bad elements).
+function satelliteEci(sat: Satellite, date: Date) {
+  const state = propagate(sat.satrec, date)
+  return state ? state.position : null
+}
+
+type SatellitePass = {
+  rise: Date
+  culmination: Date
+  set: Date
+  riseAzDeg: number
+  setAzDeg: number
+  maxElevationDeg: number
+}
+
+// Passes above the horizon in which the satellite is sunlit, above 10° and the observer is in
+// at least civil twilight. Scans a minute at a time and bisects the horizon crossings.
+function findVisiblePasses(
+  sat: Satellite,
+  observer: { lat: number; lon: number; elevationM: number },
+  start: Date,
+  days: number,
+  limit: number
+) {
+  const site = {
+    latitude: degreesToRadians(observer.lat),
+    longitude: degreesToRadians(observer.lon),
+    height: observer.elevationM / 1000,
+  }
+  const sunObserver = new Observer(observer.lat, observer.lon, observer.elevationM)
+  const look = (ms: number) => {
+    const date = new Date(ms)
+    const eci = satelliteEci(sat, date)
+    if (!eci) return null
+    const angles = ecfToLookAngles(site, eciToEcf(eci, gstime(date)))
+    return { eci, elevationDeg: radiansToDegrees(angles.elevation), azimuthDeg: radiansToDegrees(angles.azimuth) }
+  }
+  const crossing = (lowMs: number, highMs: number, rising: boolean) => {
+    for (let k = 0; k < 12; k++) {
+      const mid = (lowMs + highMs) / 2
+      if (((look(mid)?.elevationDeg ?? -90) > 0) === rising) highMs = mid
+      else lowMs = mid
+    }
+    return rising ? highMs : lowMs
+  }
+  const seenFromSite = (ms: number, eci: EciVec3<number>) => {
+    const date = new Date(ms)
+    const antiSun = unit(astroToThreeVec(GeoVector(Body.Sun, date, true))).negate()
+    if (inCylindricalShadow(new THREE.Vector3(eci.x, eci.z, eci.y).divideScalar(AU_KM), antiSun, EARTH_RADIUS_KM)) return false
+    const sun = Equator(Body.Sun, date, sunObserver, true, true)
+    return Horizon(date, sunObserver, sun.ra, sun.dec, 'normal').altitude < -6
+  }
+
+  const STEP_MS = 60000
+  const passes: SatellitePass[] = []
+  const endMs = start.getTime() + days * DAY_MS
+  let previous = look(start.getTime())
+  let pass: SatellitePass | null = null
+  let passVisible = false
+  for (let ms = start.getTime() + STEP_MS; ms <= endMs && passes.length < limit; ms += STEP_MS) {
+    const current = look(ms)
+    if (!current || !previous) {
+      previous = current
+      continue
+    }
+    if (!pass && current.elevationDeg > 0 && previous.elevationDeg <= 0) {
+      const riseMs = crossing(ms - STEP_MS, ms, true)
+      pass = {
+        rise: new Date(riseMs),
+        culmination: new Date(ms),
+        set: new Date(ms),
+        riseAzDeg: look(riseMs)?.azimuthDeg ?? current.azimuthDeg,
+        setAzDeg: current.azimuthDeg,
+        maxElevationDeg: current.elevationDeg,
+      }
+      passVisible = false
+    }
+    if (pass && current.elevationDeg > 0) {
+      if (current.elevationDeg > pass.maxElevationDeg) {
+        pass.maxElevationDeg = current.elevationDeg
+        pass.culmination = new Date(ms)
+      }
+      if (!passVisible && current.elevationDeg > 10) passVisible = seenFromSite(ms, current.eci)
+    }
+    if (pass && current.elevationDeg <= 0) {
+      const setMs = crossing(ms - STEP_MS, ms, false)
+      pass.set = new Date(setMs)
+      pass.setAzDeg = look(setMs)?.azimuthDeg ?? current.azimuthDeg
+      if (passVisible) passes.push(pass)
+      pass = null
+    }
+    previous = current
+  }
+  return passes
+}
+
+type SatelliteLayer = {
+  group: THREE.Group // inertial, goes in the tilted Earth group
+  groundTracks: THREE.Group // Earth-fixed, goes in the rotating Earth mesh
+  hoverTargets: HoverTarget[]
+  update: (sim: Date, visible: boolean) => void
+}
+
+// Satellites at true scale around an Earth mesh of `earthRadius`, each with a ground track
+// spanning half an orbit back and one forward, resampled after a quarter orbit of drift.
+function makeSatelliteLayer(satellites: Satellite[], earthRadius: number): SatelliteLayer {
+  const TRACK_SAMPLES = 180
+  const kmScale = earthRadius / EARTH_RADIUS_KM
+  const group = new THREE.Group()
+  const groundTracks = new THREE.Group()
+  const hoverTargets: SatelliteLayer['hoverTargets'] = []
+  const colors = { station: 0xffe27a, gnss: 0x8fd3ff, other: 0xc9cbe0 }
+
+  const items = satellites.map((sat) => {
+    const color = colors[sat.kind]
+    const marker = new THREE.Mesh(new THREE.SphereGeometry(0.006, 10, 10), new THREE.MeshBasicMaterial({ color }))
+    marker.add(new THREE.Mesh(new THREE.SphereGeometry(0.02, 8, 8), new THREE.MeshBasicMaterial({ visible: false })))
+    group.add(marker)
+    hoverTargets.push({ obj: marker, label: `${sat.name} (elements ${sat.epoch.toISOString().slice(0, 10)})` })
+
+    const track = new THREE.Line(
+      new THREE.BufferGeometry(),
+      new THREE.LineBasicMaterial({ color, transparent: true, opacity: 0.45 })
+    )
+    groundTracks.add(track)
+    const periodMs = ((2 * Math.PI) / sat.satrec.no) * 60000 // mean motion is rad/min
+    return { sat, marker, track, periodMs, trackCenterMs: Number.NaN }
+  })
+
+  return {
+    group,
+    groundTracks,
+    hoverTargets,
+    update(sim, visible) {
+      group.visible = visible
+      groundTracks.visible = visible
+      if (!visible) return
+      for (const item of items) {
+        const eci = satelliteEci(item.sat, sim)
+        item.marker.visible = eci != null
+        item.track.visible = eci != null
+        if (!eci) continue
+        // Same axis swap as astroToThreeVec; TEME is close enough to the J2000 equator here.
+        item.marker.position.set(eci.x * kmScale, eci.z * kmScale, eci.y * kmScale)
+
+        if (!(Math.abs(sim.getTime() - item.trackCenterMs) < item.periodMs / 4)) {
+          item.trackCenterMs = sim.getTime()
+          const points: THREE.Vector3[] = []
+          for (let k = 0; k <= TRACK_SAMPLES; k++) {
+            const date = new Date(item.trackCenterMs + item.periodMs * ((1.5 * k) / TRACK_SAMPLES - 0.5))
+            const p = satelliteEci(item.sat, date)
+            if (!p) continue
+            const geo = eciToGeodetic(p, gstime(date))
+            points.push(latLonToVec3(degreesLat(geo.latitude), degreesLong(geo.longitude), 1.004 * earthRadius))
+          }
+          item.track.geometry.setFromPoints(points)
+        }
+      }
+    },
+  }
+}
+
+type StarSample = {
+  // J2000 right ascension and declination, radians.
+  ra: number
+  dec: number
+  mag: number
+  color: THREE.Color
+}
+
+async function loadStarCatalog() {
+  const url = `${import.meta.env.BASE_URL}world/stars.json`
+  const res = await fetch(url)
+  if (!res.ok) {
+    throw new Error(`Failed to load star catalog: ${res.status}`)
+  }
+
+  const raw: Array<{ ra: number; dec: number; m: number; r: number; g: number; b: number }> = await res.json()
+  const stars: StarSample[] = []
+  for (const s of raw) {
+    // The shared catalog also carries the Sun for the World globe; skip it here.
+    if (s.m < -20) continue
+    stars.push({
+      ra: s.ra,
+      dec: s.dec,
+      mag: s.m,
+      color: new THREE.Color().setRGB(s.r / 255, s.g / 255, s.b / 255, THREE.SRGBColorSpace),
+    })
+  }
+  return stars
+}
+
+// Points on a unit sphere in J2000 equatorial axes, sized and faded by magnitude.
+function makeStarPoints(stars: StarSample[]) {
+  const positions = new Float32Array(stars.length * 3)
+  const colors = new Float32Array(stars.length * 3)
+  const mags = new Float32Array(stars.length)
+  stars.forEach((star, i) => {
+    positions[3 * i + 0] = Math.cos(star.dec) * Math.cos(star.ra)
+    positions[3 * i + 1] = Math.cos(star.dec) * Math.sin(star.ra)
+    positions[3 * i + 2] = Math.sin(star.dec)
+    colors[3 * i + 0] = star.color.r
+    colors[3 * i + 1] = star.color.g
+    colors[3 * i + 2] = star.color.b
+    mags[i] = star.mag
+  })
+  const geom = new THREE.BufferGeometry()
+  geom.setAttribute('position', new THREE.BufferAttribute(positions, 3))
+  geom.setAttribute('starColor', new THREE.BufferAttribute(colors, 3))
+  geom.setAttribute('magnitude', new THREE.BufferAttribute(mags, 1))
+  const material = new THREE.ShaderMaterial({
+    uniforms: {
+      limitingMag: { value: 6.5 },
+      pointScale: { value: 1 },
+    },
+    vertexShader: `
+      attribute vec3 starColor;
+      attribute float magnitude;
+      uniform float limitingMag;
+      uniform float pointScale;
+      varying vec3 vColor;
+      varying float vAlpha;
+      void main() {
+        vColor = starColor;
+        // Fainter stars drop out first as the sky brightens.
+        vAlpha = clamp((limitingMag - magnitude) / 1.5, 0.0, 1.0);
+        gl_PointSize = max(1.5, 5.0 - magnitude * 0.6) * pointScale;
+        gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+      }
+    `,
+    fragmentShader: `
+      varying vec3 vColor;
+      varying float vAlpha;
+      void main() {
+        float d = length(gl_PointCoord - 0.5);
+        gl_FragColor = vec4(vColor, smoothstep(0.5, 0.1, d) * vAlpha);
+        #include <tonemapping_fragment>
+        #include <colorspace_fragment>
+      }
+    `,
+    transparent: true,
+    depthWrite: false,
+  })
+  return new THREE.Points(geom, material)
+}
+
+type ConstellationFigure = {
+  abbr: string
+  // J2000 right ascension and declination, degrees.
+  path: Array<[number, number]>
+}
+
+// Stick figures, or with `constellation-bounds.csv` the boundary polygons, which share the format.
+async function loadConstellationFigures(file = 'constellation-lines.csv') {
+  const url = `${import.meta.env.BASE_URL}data/${file}`
+  const res = await fetch(url)
+  if (!res.ok) {
+    throw new Error(`Failed to load ${file}: ${res.status}`)
+  }
+
+  const text = await res.text()
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() && !line.startsWith('#'))
+  lines.shift()
+  const figures: ConstellationFigure[] = []
+  for (const line of lines) {
+    const [abbr, pathRaw] = line.split(',').map((c) => c.trim())
+    const path = (pathRaw ?? '').split(';').map((point) => point.trim().split(/\s+/).map(Number) as [number, number])
+    if (!abbr || path.length < 2 || !path.every((p) => p.length === 2 && p.every(Number.isFinite))) continue
+    figures.push({ abbr, path })
+  }
+  return figures
+}
+
+// Unit vector in J2000 equatorial axes from longitude/latitude in degrees, either equatorial
+// (RA/Dec) or ecliptic (J2000 mean ecliptic).
+function celestialVec(lonDeg: number, latDeg: number, ecliptic = false) {
+  const [lon, lat] = [(lonDeg * Math.PI) / 180, (latDeg * Math.PI) / 180]
+  const v = new THREE.Vector3(Math.cos(lat) * Math.cos(lon), Math.cos(lat) * Math.sin(lon), Math.sin(lat))
+  return ecliptic ? v.applyAxisAngle(new THREE.Vector3(1, 0, 0), OBLIQUITY_RAD) : v
+}
+
+// B1875.0, the epoch of the IAU constellation boundaries, in UT days from J2000.
+const CONSTELLATION_EPOCH_UT = -45655.74141261017
+
+// IAU constellation boundaries as J2000 unit-vector segments. Each polygon edge runs along a B1875
+// meridian or parallel, so it is interpolated in B1875 coordinates every `stepDeg`; edges shared by
+// two constellations are drawn once.
+function constellationBoundarySegments(boundaries: ConstellationFigure[], stepDeg = 1) {
+  const toB1875 = Rotation_EQJ_EQD(MakeTime(CONSTELLATION_EPOCH_UT))
+  const toJ2000 = InverseRotation(toB1875)
+  const j2000 = MakeTime(0)
+  const b1875 = ([ra, dec]: [number, number]) => {
+    const s = SphereFromVector(RotateVector(toB1875, VectorFromSphere(new Spherical(dec, ra, 1), j2000)))
+    return [s.lon, s.lat]
+  }
+  const at = (raDeg: number, decDeg: number) => {
+    const v = RotateVector(toJ2000, VectorFromSphere(new Spherical(decDeg, raDeg, 1), j2000))
+    return new THREE.Vector3(v.x, v.y, v.z)
+  }
+
+  const points: THREE.Vector3[] = []
+  const drawn = new Set<string>()
+  for (const { path } of boundaries) {
+    for (let i = 1; i < path.length; i++) {
+      const [a, b] = [path[i - 1], path[i]].map((p) => `${p[0].toFixed(3)} ${p[1].toFixed(3)}`)
+      const key = a < b ? `${a}|${b}` : `${b}|${a}`
+      if (a === b || drawn.has(key)) continue
+      drawn.add(key)
+      const [ra0, dec0] = b1875(path[i - 1])
+      const [ra1, dec1] = b1875(path[i])
+      const dRa = ((((ra1 - ra0 + 180) % 360) + 360) % 360) - 180
+      const steps = Math.max(1, Math.ceil(Math.max(Math.abs(dRa), Math.abs(dec1 - dec0)) / stepDeg))
+      for (let k = 0; k < steps; k++) {
+        points.push(
+          at(ra0 + (dRa * k) / steps, dec0 + ((dec1 - dec0) * k) / steps),
+          at(ra0 + (dRa * (k + 1)) / steps, dec0 + ((dec1 - dec0) * (k + 1)) / steps)
+        )
+      }
+    }
+  }
+  return points
+}
+
+type SkyGrid = 'off' | 'ecliptic' | 'equatorial'
+
+type CelestialSphere = {
+  group: THREE.Group
+  update: (
+    sim: Date,
+    frameRotation: THREE.Quaternion,
+    center: THREE.Vector3,
+    show: { stars: boolean; figures: boolean; boundaries: boolean; grid: SkyGrid }
+  ) => void
+}
+
+// Stars, stick figures, boundaries and a coordinate grid on a sphere of `radius` kept centred on
+// the camera, turned from J2000 into the scene's ecliptic axes the same way as the planets.
+function makeCelestialSphere(
+  stars: StarSample[],
+  figures: ConstellationFigure[],
+  boundaries: ConstellationFigure[],
+  radius: number
+): CelestialSphere {
+  const group = new THREE.Group()
+  group.matrixAutoUpdate = false
+  const background = (obj: THREE.Object3D) => {
+    obj.renderOrder = -1
+    obj.frustumCulled = false
+    group.add(obj)
+    return obj
+  }
+  const lineMaterial = (color: number, opacity: number) =>
+    new THREE.LineBasicMaterial({ color, transparent: true, opacity, depthWrite: false })
+
+  const starPoints = background(makeStarPoints(stars)) as ReturnType<typeof makeStarPoints>
+  starPoints.material.uniforms.limitingMag.value = 6
+  starPoints.material.uniforms.pointScale.value = Math.min(devicePixelRatio, 1.5) * 0.8
+
+  const figurePoints = figures.flatMap((f) =>
+    f.path.slice(1).flatMap((p, i) => [celestialVec(...f.path[i]), celestialVec(...p)])
+  )
+  const figureLines = background(
+    new THREE.LineSegments(new THREE.BufferGeometry().setFromPoints(figurePoints), lineMaterial(0x7fa7e0, 0.45))
+  )
+
+  const boundaryLines = background(
+    new THREE.LineSegments(
+      new THREE.BufferGeometry().setFromPoints(constellationBoundarySegments(boundaries)),
+      lineMaterial(0xa58fc9, 0.22)
+    )
+  )
+
+  const circle = (ecliptic: boolean, lat: number | null, lon: number | null) => {
+    const points: THREE.Vector3[] = []
+    for (let k = 0; k < 360; k += 2) {
+      const at = (a: number) => (lat != null ? celestialVec(a, lat, ecliptic) : celestialVec(lon!, a / 2 - 90, ecliptic))
+      points.push(at(k), at(k + 2))
+    }
+    return points
+  }
+  const grids = {} as Record<Exclude<SkyGrid, 'off'>, THREE.LineSegments>
+  for (const name of ['ecliptic', 'equatorial'] as const) {
+    const ecliptic = name === 'ecliptic'
+    const points: THREE.Vector3[] = []
+    for (let lat = -75; lat <= 75; lat += 15) if (lat !== 0) points.push(...circle(ecliptic, lat, null))
+    for (let lon = 0; lon < 360; lon += 30) points.push(...circle(ecliptic, null, lon))
+    grids[name] = background(
+      new THREE.LineSegments(new THREE.BufferGeometry().setFromPoints(points), lineMaterial(0x5b7aa8, 0.14))
+    ) as THREE.LineSegments
+  }
+  // The ecliptic and the celestial equator show with either grid.
+  const ecliptic = background(
+    new THREE.LineSegments(new THREE.BufferGeometry().setFromPoints(circle(true, 0, null)), lineMaterial(0xd9b36c, 0.4))
+  )
+  const equator = background(
+    new THREE.LineSegments(new THREE.BufferGeometry().setFromPoints(circle(false, 0, null)), lineMaterial(0x6cb3d9, 0.35))
+  )
+
+  const basis = new THREE.Matrix4()
+  return {
+    group,
+    update(sim, frameRotation, center, show) {
+      starPoints.visible = show.stars
+      figureLines.visible = show.figures
+      boundaryLines.visible = show.boundaries
+      grids.ecliptic.visible = show.grid === 'ecliptic'
+      grids.equatorial.visible = show.grid === 'equatorial'
+      ecliptic.visible = equator.visible = show.grid !== 'off'
+
+      // J2000 axes into the scene, as helioToEclipticVec maps the planets' vectors (a reflection,
+      // so the matrix is set directly rather than as a quaternion).
+      const time = MakeTime(sim)
+      const axis = (x: number, y: number, z: number) => helioToEclipticVec(new AstroVector(x, y, z, time))
+      basis.makeBasis(axis(1, 0, 0), axis(0, 1, 0), axis(0, 0, 1))
+      group.matrix
+        .makeRotationFromQuaternion(frameRotation)
+        .multiply(basis)
+        .scale(new THREE.Vector3(radius, radius, radius))
+        .setPosition(center)
+      group.matrixWorldNeedsUpdate = true
+    },
+  }
+}
+
+// A galaxy table as read from a file, before any column is interpreted.
+type CatalogTable = {
+  format: 'CSV' | 'TSV' | 'VOTable' | 'text'
+  columns: string[]
+  rows: string[][]
+  // Where each row sits in the file: its line number, or for a VOTable its position among the rows.
+  rowNumbers: number[]
+}
+
+type GalaxyColumnMapping = {
+  name: string // '' numbers the rows instead
+  distance: string
+  distanceKind: 'modulus' | 'mpc'
+  velocity: string
+  velocityKind: 'kms' | 'redshift'
+}
+
+type GalaxyCuts = {
+  minDistanceMpc: number
+  maxDistanceMpc: number
+  maxAbsVelocityKms: number
+}
+
+const DEFAULT_GALAXY_CUTS: GalaxyCuts = { minDistanceMpc: 0, maxDistanceMpc: 250, maxAbsVelocityKms: 15000 }
+
+type CatalogRejection = {
+  reason: string
+  count: number
+  // The first few rows dropped for this reason, numbered as in CatalogTable.rowNumbers.
+  rows: number[]
+}
+
+type GalaxyCatalog = {
+  label: string
+  rowCount: number
+  rowUnit: 'line' | 'row'
+  samples: GalaxySample[]
+  rejections: CatalogRejection[]
+}
+
+// Double quotes group a cell and "" escapes one; a single space stands for any run of whitespace.
+function splitDelimitedLine(line: string, delimiter: string) {
+  if (delimiter === ' ') return line.trim().split(/\s+/)
+  const cells: string[] = []
+  let cell = ''
+  let quoted = false
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i]
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (ch === '"') quoted = false
+      else cell += ch
+    } else if (ch === '"') quoted = true
+    else if (ch === delimiter) {
+      cells.push(cell.trim())
+      cell = ''
+    } else cell += ch
+  }
+  cells.push(cell.trim())
+  return cells
+}
+
+// Reads CSV, TSV, whitespace-separated text or a TABLEDATA VOTable. Delimited files skip blank
+// and '#' lines and take the first remaining line as the header.
+function parseCatalogTable(text: string): CatalogTable {
+  if (/^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*<VOTABLE/i.test(text)) {
+    const doc = new DOMParser().parseFromString(text, 'application/xml')
+    if (doc.getElementsByTagName('parsererror').length) throw new Error('the VOTable is not well-formed XML')
+    const table = doc.getElementsByTagNameNS('*', 'TABLE')[0]
+    if (!table) throw new Error('the VOTable has no TABLE')
+    const columns = [...table.getElementsByTagNameNS('*', 'FIELD')].map((field, i) => field.getAttribute('name') ?? `col${i + 1}`)
+    const data = table.getElementsByTagNameNS('*', 'TABLEDATA')[0]
+    if (!data) throw new Error('only TABLEDATA VOTables can be read (not BINARY or FITS)')
+    const rows = [...data.getElementsByTagNameNS('*', 'TR')].map((tr) =>
+      [...tr.getElementsByTagNameNS('*', 'TD')].map((td) => (td.textContent ?? '').trim())
+    )
+    return { format: 'VOTable', columns, rows, rowNumbers: rows.map((_, i) => i + 1) }
+  }
+
+  const lines = text
+    .split(/\r?\n/)
+    .map((line, i) => ({ line, number: i + 1 }))
+    .filter(({ line }) => line.trim() && !line.trimStart().startsWith('#'))
+  const header = lines.shift()?.line
+  if (!header) throw new Error('the file has no header line')
+  const delimiter = header.includes('\t') ? '\t' : header.includes(',') ? ',' : header.includes(';') ? ';' : ' '
+  const format = delimiter === '\t' ? 'TSV' : delimiter === ' ' ? 'text' : 'CSV'
+  return {
+    format,
+    columns: splitDelimitedLine(header, delimiter).map((name) => name.replace(/^"|"$/g, '')),
+    rows: lines.map(({ line }) => splitDelimitedLine(line, delimiter)),
+    rowNumbers: lines.map(({ number }) => number),
+  }
+}
+
+// A first guess from common column names; the import dialog lets the user correct it.
+function guessGalaxyMapping(columns: string[]): GalaxyColumnMapping {
+  const find = (pattern: RegExp) => columns.find((column) => pattern.test(column.trim())) ?? ''
+  const modulus = find(/^(mod0|mu|m-?M|dm|distmod|dist_?mod(ulus)?)$/i)
+  const mpc = find(/^(d|dist(ance)?)(_?mpc)?$|mpc/i)
+  const velocity = find(/^(vgsr|vhel|vcmb|v|vel(ocity)?|cz|v_?(rad|rec))$/i)
+  const redshift = find(/^(z|redshift|z_?(hel|cmb|spec))$/i)
+  return {
+    name: find(/^(obj)?name$|^(id|galaxy|object|designation|pgc)$/i),
+    distance: modulus || mpc,
+    distanceKind: modulus || !mpc ? 'modulus' : 'mpc',
+    velocity: velocity || redshift,
+    velocityKind: velocity || !redshift ? 'kms' : 'redshift',
+  }
+}
+
+// Applies the mapping and cuts, recording why each dropped row was dropped. Redshifts become
+// velocities as cz, the low-redshift convention the Hubble diagram uses.
+function buildGalaxyCatalog(label: string, table: CatalogTable, mapping: GalaxyColumnMapping, cuts: GalaxyCuts): GalaxyCatalog {
+  const column = (name: string) => table.columns.indexOf(name)
+  const [nameAt, distanceAt, velocityAt] = [column(mapping.name), column(mapping.distance), column(mapping.velocity)]
+  const rejections = new Map<string, CatalogRejection>()
+  const reject = (reason: string, row: number) => {
+    const entry = rejections.get(reason) ?? { reason, count: 0, rows: [] }
+    entry.count++
+    if (entry.rows.length < 5) entry.rows.push(row)
+    rejections.set(reason, entry)
+  }
+  const number = (cells: string[], at: number) => (at >= 0 && cells[at] ? Number(cells[at]) : Number.NaN)
+
+  const rowUnit = table.format === 'VOTable' ? 'row' : 'line'
+  const samples: GalaxySample[] = []
+  table.rows.forEach((cells, i) => {
+    const row = table.rowNumbers[i]
+    const name = nameAt >= 0 ? cells[nameAt] ?? '' : `${rowUnit} ${row}`
+    if (!name) return reject('no name', row)
+    const distance = number(cells, distanceAt)
+    if (!Number.isFinite(distance)) return reject('distance missing or not a number', row)
+    const velocity = number(cells, velocityAt)
+    if (!Number.isFinite(velocity)) return reject('velocity missing or not a number', row)
+
+    // Distance modulus -> parsec, then to megaparsec.
+    const distanceMpc = mapping.distanceKind === 'modulus' ? Math.pow(10, (distance - 25) / 5) : distance
+    const velocityKms = mapping.velocityKind === 'redshift' ? velocity * LIGHT_SPEED_KM_S : velocity
+    if (!(distanceMpc > 0)) return reject('distance not positive', row)
+    if (distanceMpc < cuts.minDistanceMpc) return reject(`nearer than ${cuts.minDistanceMpc} Mpc`, row)
+    if (distanceMpc > cuts.maxDistanceMpc) return reject(`beyond ${cuts.maxDistanceMpc} Mpc`, row)
+    if (Math.abs(velocityKms) > cuts.maxAbsVelocityKms) return reject(`|v| over ${cuts.maxAbsVelocityKms} km/s`, row)
+    samples.push({ name, distanceMpc, velocityKms })
+  })
+
+  samples.sort((a, b) => a.distanceMpc - b.distanceMpc)
+  return { label, rowCount: table.rows.length, rowUnit, samples, rejections: [...rejections.values()] }
+}
+
+function formatCatalogRejections(catalog: GalaxyCatalog) {
+  if (!catalog.rejections.length) return 'none'
+  return catalog.rejections
+    .map(
+      ({ reason, count, rows }) =>
+        `${count} ${reason} (${catalog.rowUnit}${rows.length > 1 ? 's' : ''} ${rows.join(', ')}${count > rows.length ? '…' : ''})`
+    )
+    .join('; ')
+}
+
+// The bundled HyperLeda extract, with its distance moduli and Galactic-standard-of-rest velocities.
+const BUNDLED_GALAXY_MAPPING: GalaxyColumnMapping = {
+  name: 'objname',
+  distance: 'mod0',
+  distanceKind: 'modulus',
+  velocity: 'vgsr',
+  velocityKind: 'kms',
+}
+
+async function loadGalaxyTable() {
+  const url = `${import.meta.env.BASE_URL}data/galaxies.csv`
+  const res = await fetch(url, { cache: 'no-store' })
+  if (!res.ok) {
+    throw new Error(`Failed to load galaxy catalog: ${res.status}`)
+  }
+  return parseCatalogTable(await res.text())
+}
+
+type Place = {
+  name: string
+  admin: string
+  country: string
+  lat: number
+  lon: number
+  elevationM: number
+  timeZone: string
+  population: number
+  nameWords: string[]
+  searchWords: string[]
+}
+
+function normalizeSearchText(text: string) {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase()
+}
+
+function searchWordsOf(text: string) {
+  return normalizeSearchText(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean)
+}
+
+// GeoNames cities15000 extract, sorted by population so search results come out ranked.
+async function loadPlaces() {
+  const url = `${import.meta.env.BASE_URL}data/places.csv`
+  const res = await fetch(url)
+  if (!res.ok) {
+    throw new Error(`Failed to load places: ${res.status}`)
+  }
+
+  const text = await res.text()
+  const lines = text.trim().split(/\r?\n/)
+  lines.shift()
+
+  const regionNames = new Intl.DisplayNames(['en'], { type: 'region' })
+  const countryName = (code: string) => {
+    try {
+      return regionNames.of(code) ?? code
+    } catch {
+      return code
+    }
+  }
+
+  const places: Place[] = []
+  for (const line of lines) {
+    const [name, admin, code, latRaw, lonRaw, elevationRaw, timeZone, populationRaw] = line.split(',')
+    const lat = Number(latRaw)
+    const lon = Number(lonRaw)
+    if (!name || !Number.isFinite(lat) || !Number.isFinite(lon)) continue
+
+    const country = countryName(code)
+    places.push({
+      name,
+      admin,
+      country,
+      lat,
+      lon,
+      elevationM: Number(elevationRaw) || 0,
+      timeZone: timeZone || 'UTC',
+      population: Number(populationRaw) || 0,
+      nameWords: searchWordsOf(name),
+      searchWords: searchWordsOf(`${name} ${admin} ${code} ${country}`),
+    })
+  }
+  return places
+}
+
+// Every query word must start a word of the place; the first one must start a word of its name.
+function searchPlaces(places: Place[], query: string, limit = 8) {
+  const words = searchWordsOf(query)
+  if (!words.length) return []
+
+  const whole = normalizeSearchText(query.split(',')[0].trim())
+  const exact: Place[] = []
+  const partial: Place[] = []
+  for (const place of places) {
+    if (!place.nameWords.some((w) => w.startsWith(words[0]))) continue
+    if (!words.every((q) => place.searchWords.some((w) => w.startsWith(q)))) continue
+    const bucket = normalizeSearchText(place.name) === whole ? exact : partial
+    if (bucket.length < limit) bucket.push(place)
+    if (exact.length >= limit) break
+  }
+  return [...exact, ...partial].slice(0, limit)
+}
+
+function formatPlaceLabel(place: Place) {
+  return [place.name, place.admin, place.country].filter(Boolean).join(', ')
+}
+
+function nearestPlace(places: Place[], lat: number, lon: number) {
+  const toRad = Math.PI / 180
+  const sinLat = Math.sin(lat * toRad)
+  const cosLat = Math.cos(lat * toRad)
+  let best: Place | undefined
+  let bestCos = -2
+  for (const place of places) {
+    const cosAngle =
+      sinLat * Math.sin(place.lat * toRad) +
+      cosLat * Math.cos(place.lat * toRad) * Math.cos((place.lon - lon) * toRad)
+    if (cosAngle > bestCos) {
+      bestCos = cosAngle
+      best = place
+    }
+  }
+  return best ? { place: best, distanceKm: Math.acos(clamp(bestCos, -1, 1)) * EARTH_RADIUS_KM } : undefined
+}
+
+function makeMoonMaterial() {
+  return new THREE.ShaderMaterial({
+    uniforms: {
+      sunDirection: { value: new THREE.Vector3(1, 0, 0) },
+      albedo: { value: new THREE.Color(0xd6d6d6) },
+      earthshine: { value: 0.025 },
+    },
+    vertexShader: `
+      varying vec3 vNormal;
+      varying vec3 vWorldPosition;
+      void main() {
+        vec4 worldPosition = modelMatrix * vec4(position, 1.0);
+        vWorldPosition = worldPosition.xyz;
+        vNormal = normalize(mat3(modelMatrix) * normal);
+        gl_Position = projectionMatrix * viewMatrix * worldPosition;
+      }
+    `,
+    fragmentShader: `
+      uniform vec3 sunDirection;
+      uniform vec3 albedo;
+      uniform float earthshine;
+      varying vec3 vNormal;
+      varying vec3 vWorldPosition;
+      void main() {
+        vec3 n = normalize(vNormal);
+        vec3 v = normalize(cameraPosition - vWorldPosition);
+        float mu0 = max(dot(n, sunDirection), 0.0);
+        float mu = max(dot(n, v), 0.0);
+        // Lommel-Seeliger scattering: regolith makes the full Moon look like a flat disc
+        // instead of a Lambert-shaded ball. Earthshine keeps the night side faintly visible.
+        float lit = 2.0 * mu0 / max(mu0 + mu, 1e-4);
+        gl_FragColor = vec4(albedo * (lit + earthshine), 1.0);
+        #include <tonemapping_fragment>
+        #include <colorspace_fragment>
+      }
+    `,
+  })
+}
+
+async function loadEarthTexture(file: string) {
+  const texture = await new THREE.TextureLoader().loadAsync(`${import.meta.env.BASE_URL}textures/${file}`)
+  texture.colorSpace = THREE.SRGBColorSpace
+  texture.anisotropy = 8
+  texture.wrapS = THREE.RepeatWrapping
+  return texture
+}
+
+function makeEarthMaterial(dayMap: THREE.Texture, nightMap: THREE.Texture) {
+  return new THREE.ShaderMaterial({
+    uniforms: {
+      dayMap: { value: dayMap },
+      nightMap: { value: nightMap },
+      sunDirection: { value: new THREE.Vector3(1, 0, 0) },
+      // Prime meridian offset as a fraction of the texture width.
+      uvOffset: { value: 0.5 },
+    },
+    vertexShader: `
+      varying vec2 vUv;
+      varying vec3 vNormal;
+      varying vec3 vWorldPosition;
+      void main() {
+        vUv = uv;
+        vec4 worldPosition = modelMatrix * vec4(position, 1.0);
+        vWorldPosition = worldPosition.xyz;
+        vNormal = normalize(mat3(modelMatrix) * normal);
+        gl_Position = projectionMatrix * viewMatrix * worldPosition;
+      }
+    `,
+    fragmentShader: `
+      uniform sampler2D dayMap;
+      uniform sampler2D nightMap;
+      uniform vec3 sunDirection;
+      uniform float uvOffset;
+      varying vec2 vUv;
+      varying vec3 vNormal;
+      varying vec3 vWorldPosition;
+
+      // 1 inside [lo, hi] degrees of solar altitude, with a soft one-degree edge.
+      float band(float alt, float lo, float hi) {
+        return smoothstep(lo - 1.0, lo + 1.0, alt) * (1.0 - smoothstep(hi - 1.0, hi + 1.0, alt));
+      }
+
+      void main() {
+        vec3 n = normalize(vNormal);
+        vec3 v = normalize(cameraPosition - vWorldPosition);
+        vec2 uv = vec2(vUv.x + uvOffset, vUv.y);
+
+        // Solar altitude at this surface point, in degrees.
+        float cosSun = dot(n, sunDirection);
+        float sunAlt = degrees(asin(clamp(cosSun, -1.0, 1.0)));
+
+        vec3 day = texture2D(dayMap, uv).rgb * (0.015 + 1.15 * max(cosSun, 0.0));
+        float lightsOn = 1.0 - smoothstep(-6.0, 0.0, sunAlt);
+        vec3 night = texture2D(nightMap, uv).rgb * 1.3 * lightsOn;
+
+        vec3 twilight =
+          vec3(1.0, 0.45, 0.18) * 0.16 * band(sunAlt, -6.0, 0.0) +
+          vec3(0.45, 0.28, 0.6) * 0.09 * band(sunAlt, -12.0, -6.0) +
+          vec3(0.12, 0.16, 0.42) * 0.06 * band(sunAlt, -18.0, -12.0);
+
+        // Thin-air haze toward the limb on the lit side.
+        float fresnel = pow(1.0 - max(dot(n, v), 0.0), 2.5);
+        vec3 haze = vec3(0.3, 0.55, 1.0) * fresnel * 0.55 * smoothstep(-0.15, 0.35, cosSun);
+
+        gl_FragColor = vec4(day + night + twilight + haze, 1.0);
+        #include <tonemapping_fragment>
+        #include <colorspace_fragment>
+      }
+    `,
+  })
+}
+
+function makeAtmosphereMaterial() {
+  return new THREE.ShaderMaterial({
+    uniforms: {
+      sunDirection: { value: new THREE.Vector3(1, 0, 0) },
+    },
+    vertexShader: `
+      varying vec3 vNormal;
+      varying vec3 vWorldPosition;
+      void main() {
+        vec4 worldPosition = modelMatrix * vec4(position, 1.0);
+        vWorldPosition = worldPosition.xyz;
+        vNormal = normalize(mat3(modelMatrix) * normal);
+        gl_Position = projectionMatrix * viewMatrix * worldPosition;
+      }
+    `,
+    fragmentShader: `
+      uniform vec3 sunDirection;
+      varying vec3 vNormal;
+      varying vec3 vWorldPosition;
+      void main() {
+        vec3 n = normalize(vNormal);
+        vec3 v = normalize(cameraPosition - vWorldPosition);
+        // Scattering path length grows toward the limb; only sunlit air glows,
+        // reddening where the light grazes the terminator.
+        float rim = pow(1.0 - abs(dot(n, v)), 3.0);
+        float cosSun = dot(n, sunDirection);
+        float lit = smoothstep(-0.25, 0.3, cosSun);
+        vec3 color = mix(vec3(1.0, 0.5, 0.25), vec3(0.3, 0.6, 1.0), smoothstep(-0.05, 0.35, cosSun));
+        gl_FragColor = vec4(color * rim * lit * 1.4, rim * lit);
+        #include <tonemapping_fragment>
+        #include <colorspace_fragment>
+      }
+    `,
+    transparent: true,
+    depthWrite: false,
+    blending: THREE.AdditiveBlending,
+  })
+}
+
+type RingBand = { fromKm: number; toKm: number; opacity: number; color: number }
+
+type PlanetLook = {
+  // Optional equirectangular map under public/textures; a generated one stands in without it.
+  texture: string
+  equatorialKm: number
+  flattening: number
+  // Fallback colours from the north pole to the south pole, and how blotchy the surface is.
+  bands: number[]
+  mottle: number
+  rings?: RingBand[]
+}
+
+// Ring radii after Cuzzi et al. (Saturn) and Elliot & Nicholson (Uranus); opacities are eyeballed
+// from Cassini and Voyager images, not measured optical depths.
+const PLANET_LOOKS: Partial<Record<Body, PlanetLook>> = {
+  [Body.Mercury]: { texture: '2k_mercury.jpg', equatorialKm: 2440.5, flattening: 0, bands: [0x8f8a84], mottle: 0.35 },
+  [Body.Venus]: {
+    texture: '2k_venus_atmosphere.jpg',
+    equatorialKm: 6051.8,
+    flattening: 0,
+    bands: [0xd9c79a, 0xe8d6a8, 0xf0dfb4, 0xe8d6a8, 0xd9c79a],
+    mottle: 0.08,
+  },
+  [Body.Mars]: {
+    texture: '2k_mars.jpg',
+    equatorialKm: 3396.2,
+    flattening: 0.00589,
+    bands: [0xf2f2f2, 0xb8664a, 0xc1603a, 0x9a4a32, 0xc1603a, 0xb8664a, 0xe8e8e8],
+    mottle: 0.4,
+  },
+  [Body.Jupiter]: {
+    texture: '2k_jupiter.jpg',
+    equatorialKm: 71492,
+    flattening: 0.06487,
+    bands: [0x8f8778, 0xc9b79c, 0xa5754f, 0xe8dcc4, 0xb9804f, 0xefe4cc, 0xa8704a, 0xd8c6a6, 0xa0917c],
+    mottle: 0.12,
+  },
+  [Body.Saturn]: {
+    texture: '2k_saturn.jpg',
+    equatorialKm: 60268,
+    flattening: 0.09796,
+    bands: [0x8c8f86, 0xc8b489, 0xe3cf9e, 0xd6bd88, 0xeadbb0, 0xd6bd88, 0xe3cf9e, 0xc8b489],
+    mottle: 0.05,
+    rings: [
+      { fromKm: 66900, toKm: 74658, opacity: 0.04, color: 0x8a7f70 },
+      { fromKm: 74658, toKm: 92000, opacity: 0.15, color: 0xa89a84 },
+      { fromKm: 92000, toKm: 117580, opacity: 0.9, color: 0xd8c9a3 },
+      { fromKm: 117580, toKm: 122170, opacity: 0.08, color: 0x8a7f70 },
+      { fromKm: 122170, toKm: 133423, opacity: 0.6, color: 0xcdbf9f },
+      { fromKm: 133423, toKm: 133745, opacity: 0.02, color: 0x8a7f70 },
+      { fromKm: 133745, toKm: 136775, opacity: 0.5, color: 0xcdbf9f },
+      { fromKm: 140100, toKm: 140300, opacity: 0.3, color: 0xcdbf9f },
+    ],
+  },
+  [Body.Uranus]: {
+    texture: '2k_uranus.jpg',
+    equatorialKm: 25559,
+    flattening: 0.02293,
+    // The sunlit south polar hood Voyager 2 saw; it makes the sideways pole easy to spot.
+    bands: [0x9fd6e2, 0xa4dbe6, 0xa4dbe6, 0xb4e4ec, 0xc8eef2],
+    mottle: 0.03,
+    rings: [
+      { fromKm: 41800, toKm: 45700, opacity: 0.08, color: 0x6e6e6e },
+      { fromKm: 47100, toKm: 48400, opacity: 0.12, color: 0x6e6e6e },
+      { fromKm: 51100, toKm: 51200, opacity: 0.6, color: 0x7a7a7a },
+    ],
+  },
+  [Body.Neptune]: {
+    texture: '2k_neptune.jpg',
+    equatorialKm: 24764,
+    flattening: 0.01708,
+    bands: [0x5a78d8, 0x4a68d0, 0x5574dc, 0x3d5cc4, 0x4a68d0, 0x5a78d8],
+    mottle: 0.06,
+  },
+}
+
+async function loadPlanetTexture(look: PlanetLook) {
+  try {
+    return await loadEarthTexture(look.texture)
+  } catch {
+    return makePlanetFallbackTexture(look)
+  }
+}
+
+// Latitude bands with seeded value noise: streaky along latitude for the giants, blotchy for rocky worlds.
+function makePlanetFallbackTexture(look: PlanetLook) {
+  const [width, height] = [512, 256]
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext('2d')!
+  const image = ctx.createImageData(width, height)
+
+  const colors = look.bands.map((hex) => new THREE.Color(hex))
+  const hash = (x: number, y: number) => {
+    const s = Math.sin(x * 127.1 + y * 311.7 + look.equatorialKm) * 43758.5453
+    return s - Math.floor(s)
+  }
+  // Wraps in x so the map has no seam at the antimeridian.
+  const noise = (x: number, y: number, cells: number) => {
+    const [gx, gy] = [(x / width) * cells, (y / height) * cells * 0.5]
+    const [x0, y0] = [Math.floor(gx), Math.floor(gy)]
+    const [fx, fy] = [gx - x0, gy - y0].map((f) => f * f * (3 - 2 * f))
+    const at = (i: number, j: number) => hash(((i % cells) + cells) % cells, j)
+    const top = at(x0, y0) + (at(x0 + 1, y0) - at(x0, y0)) * fx
+    const bottom = at(x0, y0 + 1) + (at(x0 + 1, y0 + 1) - at(x0, y0 + 1)) * fx
+    return top + (bottom - top) * fy
+  }
+  const streaky = look.mottle < 0.2
+  const color = new THREE.Color()
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const warp = streaky ? (noise(x, y, 24) - 0.5) * 6 : 0
+      const t = clamp((y + warp) / (height - 1), 0, 1) * (colors.length - 1)
+      const i = Math.min(Math.floor(t), colors.length - 2)
+      if (colors.length === 1) color.copy(colors[0])
+      else color.copy(colors[i]).lerp(colors[i + 1], t - i)
+      const detail = streaky
+        ? noise(x, y * 4, 64) * 0.6 + noise(x, y, 16) * 0.4
+        : noise(x, y, 16) * 0.5 + noise(x, y, 48) * 0.3 + noise(x, y, 128) * 0.2
+      color.multiplyScalar(1 + (detail - 0.5) * 2 * look.mottle)
+      const k = 4 * (y * width + x)
+      image.data[k + 0] = clamp(color.r * 255, 0, 255)
+      image.data[k + 1] = clamp(color.g * 255, 0, 255)
+      image.data[k + 2] = clamp(color.b * 255, 0, 255)
+      image.data[k + 3] = 255
+    }
+  }
+  ctx.putImageData(image, 0, 0)
+
+  const texture = new THREE.CanvasTexture(canvas)
+  texture.colorSpace = THREE.SRGBColorSpace
+  texture.wrapS = THREE.RepeatWrapping
+  return texture
+}
+
+// Radial ring profile: u runs from the innermost to the outermost band, alpha is the opacity.
+function makeRingTexture(rings: RingBand[]) {
+  const inner = rings[0].fromKm
+  const outer = rings[rings.length - 1].toKm
+  const width = 1024
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = 1
+  const ctx = canvas.getContext('2d')!
+  for (const band of rings) {
+    const x0 = ((band.fromKm - inner) / (outer - inner)) * width
+    const x1 = ((band.toKm - inner) / (outer - inner)) * width
+    ctx.fillStyle = `#${new THREE.Color(band.color).getHexString()}`
+    ctx.globalAlpha = band.opacity
+    ctx.fillRect(x0, 0, Math.max(x1 - x0, 1), 1)
+  }
+  const texture = new THREE.CanvasTexture(canvas)
+  texture.colorSpace = THREE.SRGBColorSpace
+  return texture
+}
+
+// Lambert-lit planet with an optional ring shadow: each point looks toward the Sun through the
+// ring plane and is dimmed by the ring's opacity where that ray crosses it.
+function makePlanetMaterial(map: THREE.Texture, ringMap: THREE.Texture | null = null) {
+  return new THREE.ShaderMaterial({
+    uniforms: {
+      map: { value: map },
+      sunDirection: { value: new THREE.Vector3(1, 0, 0) },
+      ringMap: { value: ringMap },
+      // Ring radii in planet radii; an outer radius of 0 means no rings.
+      ringInner: { value: 0 },
+      ringOuter: { value: 0 },
+      ringNormal: { value: new THREE.Vector3(0, 1, 0) },
+      planetCenter: { value: new THREE.Vector3() },
+      planetRadius: { value: 1 },
+    },
+    vertexShader: `
+      varying vec2 vUv;
+      varying vec3 vNormal;
+      varying vec3 vWorldPosition;
+      void main() {
+        vUv = uv;
+        vec4 worldPosition = modelMatrix * vec4(position, 1.0);
+        vWorldPosition = worldPosition.xyz;
+        vNormal = normalize(mat3(modelMatrix) * normal);
+        gl_Position = projectionMatrix * viewMatrix * worldPosition;
+      }
+    `,
+    fragmentShader: `
+      uniform sampler2D map;
+      uniform vec3 sunDirection;
+      uniform sampler2D ringMap;
+      uniform float ringInner;
+      uniform float ringOuter;
+      uniform vec3 ringNormal;
+      uniform vec3 planetCenter;
+      uniform float planetRadius;
+      varying vec2 vUv;
+      varying vec3 vNormal;
+      varying vec3 vWorldPosition;
+      void main() {
+        vec3 n = normalize(vNormal);
+        float light = max(dot(n, sunDirection), 0.0);
+        if (ringOuter > 0.0 && light > 0.0) {
+          float t = dot(planetCenter - vWorldPosition, ringNormal) / dot(sunDirection, ringNormal);
+          if (t > 0.0) {
+            float r = length(vWorldPosition + sunDirection * t - planetCenter) / planetRadius;
+            float u = (r - ringInner) / (ringOuter - ringInner);
+            if (u >= 0.0 && u <= 1.0) light *= 1.0 - texture2D(ringMap, vec2(u, 0.5)).a;
+          }
+        }
+        // The scene axes are mirrored, so east runs toward decreasing u on the sphere; flip it back.
+        vec3 color = texture2D(map, vec2(1.0 - vUv.x, vUv.y)).rgb;
+        gl_FragColor = vec4(color * (0.02 + 1.1 * light), 1.0);
+        #include <tonemapping_fragment>
+        #include <colorspace_fragment>
+      }
+    `,
+  })
+}
+
+// Rings in the planet's equator plane (local XZ). The lit face shows the ring colour; from the
+// unlit face only light leaking through the thinner parts shows. The planet's shadow is a cylinder.
+function makeRingMaterial(ringMap: THREE.Texture, inner: number, outer: number) {
+  return new THREE.ShaderMaterial({
+    uniforms: {
+      ringMap: { value: ringMap },
+      inner: { value: inner },
+      outer: { value: outer },
+      sunDirection: { value: new THREE.Vector3(1, 0, 0) },
+      planetCenter: { value: new THREE.Vector3() },
+      planetRadius: { value: 1 },
+    },
+    vertexShader: `
+      varying vec3 vLocal;
+      varying vec3 vNormal;
+      varying vec3 vWorldPosition;
+      void main() {
+        vLocal = position;
+        vec4 worldPosition = modelMatrix * vec4(position, 1.0);
+        vWorldPosition = worldPosition.xyz;
+        vNormal = normalize(mat3(modelMatrix) * vec3(0.0, 1.0, 0.0));
+        gl_Position = projectionMatrix * viewMatrix * worldPosition;
+      }
+    `,
+    fragmentShader: `
+      uniform sampler2D ringMap;
+      uniform float inner;
+      uniform float outer;
+      uniform vec3 sunDirection;
+      uniform vec3 planetCenter;
+      uniform float planetRadius;
+      varying vec3 vLocal;
+      varying vec3 vNormal;
+      varying vec3 vWorldPosition;
+      void main() {
+        float u = (length(vLocal.xz) - inner) / (outer - inner);
+        if (u < 0.0 || u > 1.0) discard;
+        vec4 ring = texture2D(ringMap, vec2(u, 0.5));
+        vec3 n = normalize(vNormal);
+        vec3 v = normalize(cameraPosition - vWorldPosition);
+        float sunSide = dot(n, sunDirection);
+        float light = dot(n, v) * sunSide > 0.0 ? 0.1 + sqrt(abs(sunSide)) : 0.6 * (1.0 - ring.a);
+
+        vec3 toCenter = planetCenter - vWorldPosition;
+        float along = dot(toCenter, sunDirection);
+        if (along > 0.0 && length(toCenter - sunDirection * along) < planetRadius) light *= 0.03;
+
+        gl_FragColor = vec4(ring.rgb * light, ring.a);
+        #include <tonemapping_fragment>
+        #include <colorspace_fragment>
+      }
+    `,
+    transparent: true,
+    side: THREE.DoubleSide,
+    depthWrite: false,
+  })
+}
+
+// Planet attitude from the IAU rotation model in scene axes: +Y to the north pole, turned by the
+// prime-meridian angle W about it from the equator's ascending node on the ICRF equator, in the
+// same sense as Earth's sidereal spin.
+function planetOrientation(body: Body, date: Date) {
+  const axis = RotationAxis(body, date)
+  const ra = (axis.ra * 15 * Math.PI) / 180
+  const node = helioToEclipticVec(new AstroVector(-Math.sin(ra), Math.cos(ra), 0, axis.north.t))
+  const pole = helioToEclipticVec(axis.north)
+  const basis = new THREE.Matrix4().makeBasis(node, pole, node.clone().cross(pole))
+  const spin = new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 1, 0), (-axis.spin * Math.PI) / 180)
+  return new THREE.Quaternion().setFromRotationMatrix(basis).multiply(spin)
+}
+
+type MoonPhaseInfo = {
+  name: string
+  phaseAngleDeg: number
+  illuminatedFraction: number
+  // Position angle of the bright limb, measured from celestial north through east.
+  brightLimbRad: number
+}
+
+function moonPhaseInfo(date: Date): MoonPhaseInfo {
+  const names = [
+    'New moon',
+    'Waxing crescent',
+    'First quarter',
+    'Waxing gibbous',
+    'Full moon',
+    'Waning gibbous',
+    'Last quarter',
+    'Waning crescent',
+  ]
+  const illum = Illumination(Body.Moon, date)
+  const moon = EquatorFromVector(GeoVector(Body.Moon, date, true))
+  const sun = EquatorFromVector(GeoVector(Body.Sun, date, true))
+  const deg = Math.PI / 180
+  const dRa = (sun.ra - moon.ra) * 15 * deg
+  const brightLimbRad = Math.atan2(
+    Math.cos(sun.dec * deg) * Math.sin(dRa),
+    Math.sin(sun.dec * deg) * Math.cos(moon.dec * deg) -
+      Math.cos(sun.dec * deg) * Math.sin(moon.dec * deg) * Math.cos(dRa)
+  )
+  return {
+    name: names[Math.round(MoonPhase(date) / 45) % 8],
+    phaseAngleDeg: illum.phase_angle,
+    illuminatedFraction: illum.phase_fraction,
+    brightLimbRad,
+  }
+}
+
+type LunarCycle = {
+  previousNewMoon: Date
+  quarters: Array<{ name: string; time: Date }>
+}
+
+function findLunarCycle(date: Date): LunarCycle {
+  const quarterNames = ['New moon', 'First quarter', 'Full moon', 'Last quarter']
+
+  // Walk forward from a month back to the last new moon at or before the date.
+  let previousNewMoon = SearchMoonPhase(0, new Date(date.getTime() - 31 * DAY_MS), 31)!.date
+  for (;;) {
+    const next = SearchMoonPhase(0, new Date(previousNewMoon.getTime() + DAY_MS), 31)
+    if (!next || next.date > date) break
+    previousNewMoon = next.date
+  }
+
+  const quarters: LunarCycle['quarters'] = []
+  let mq = SearchMoonQuarter(date)
+  for (let i = 0; i < 4; i++) {
+    quarters.push({ name: quarterNames[mq.quarter], time: mq.time.date })
+    mq = NextMoonQuarter(mq)
+  }
+  return { previousNewMoon, quarters }
+}
+
+function drawMoonPhaseDisc(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  r: number,
+  phase: MoonPhaseInfo
+) {
+  ctx.save()
+  ctx.translate(x, y)
+
+  ctx.fillStyle = 'rgba(44, 48, 60, 0.96)'
+  ctx.beginPath()
+  ctx.arc(0, 0, r, 0, Math.PI * 2)
+  ctx.fill()
+
+  // North up, east left: rotate so the bright limb points along +x, then draw the lit
+  // half-disc closed by the terminator, an ellipse whose width follows the phase angle.
+  ctx.rotate(Math.atan2(-Math.cos(phase.brightLimbRad), -Math.sin(phase.brightLimbRad)))
+  const cosPhase = Math.cos((phase.phaseAngleDeg * Math.PI) / 180)
+  ctx.fillStyle = 'rgba(236, 234, 226, 0.98)'
+  ctx.beginPath()
+  ctx.arc(0, 0, r, -Math.PI / 2, Math.PI / 2)
+  ctx.ellipse(0, 0, r * Math.abs(cosPhase), r, 0, Math.PI / 2, -Math.PI / 2, cosPhase < 0)
+  ctx.fill()
+  ctx.restore()
+}
+
+function drawMoonInset(
+  canvas: HTMLCanvasElement,
+  ctx: CanvasRenderingContext2D,
+  moonVec: AstroVector,
+  phase: MoonPhaseInfo
+) {
+  const w = canvas.width
+  const h = canvas.height
+  ctx.clearRect(0, 0, w, h)
+
+  const bg = ctx.createLinearGradient(0, 0, w, h)
+  bg.addColorStop(0, 'rgba(7, 12, 24, 0.95)')
+  bg.addColorStop(1, 'rgba(3, 5, 11, 0.96)')
+  ctx.fillStyle = bg
+  ctx.fillRect(0, 0, w, h)
+
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.08)'
+  ctx.lineWidth = 1
+  ctx.strokeRect(0.5, 0.5, w - 1, h - 1)
+
+  const earthRadiusPx = 2.8
+  const moonRadiusPx = earthRadiusPx * (MOON_RADIUS_KM / EARTH_RADIUS_KM)
+  const earthRadii = vectorLength(moonVec, AU_KM) / EARTH_RADIUS_KM
+  const distancePx = earthRadii * earthRadiusPx
+
+  const earthX = 58
+  const centerY = h * 0.56
+  const moonX = earthX + distancePx
+
+  // Scale ticks
+  ctx.strokeStyle = 'rgba(120, 150, 190, 0.22)'
+  ctx.beginPath()
+  for (let i = 0; i <= 6; i++) {
+    const x = earthX + i * 28
+    ctx.moveTo(x, centerY - 14)
+    ctx.lineTo(x, centerY + 14)
+  }
+  ctx.stroke()
+
+  // Earth -> Moon line
+  ctx.strokeStyle = 'rgba(153, 201, 255, 0.38)'
+  ctx.lineWidth = 1.4
+  ctx.beginPath()
+  ctx.moveTo(earthX + earthRadiusPx, centerY)
+  ctx.lineTo(moonX - moonRadiusPx, centerY)
+  ctx.stroke()
+
+  // Earth
+  const earthGlow = ctx.createRadialGradient(
+    earthX - 1,
+    centerY - 1,
+    1,
+    earthX,
+    centerY,
+    earthRadiusPx * 3.5
+  )
+  earthGlow.addColorStop(0, 'rgba(120, 190, 255, 0.9)')
+  earthGlow.addColorStop(1, 'rgba(40, 90, 160, 0.05)')
+  ctx.fillStyle = earthGlow
+  ctx.beginPath()
+  ctx.arc(earthX, centerY, earthRadiusPx * 3.2, 0, Math.PI * 2)
+  ctx.fill()
+
+  ctx.fillStyle = 'rgba(115, 186, 255, 0.96)'
+  ctx.beginPath()
+  ctx.arc(earthX, centerY, earthRadiusPx, 0, Math.PI * 2)
+  ctx.fill()
+
+  // Moon
+  ctx.fillStyle = 'rgba(222, 222, 228, 0.96)'
+  ctx.beginPath()
+  ctx.arc(moonX, centerY, moonRadiusPx, 0, Math.PI * 2)
+  ctx.fill()
+
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.92)'
+  ctx.font = '12px "Avenir Next", "Trebuchet MS", sans-serif'
+  ctx.fillText('Moon inset, true scale', 12, 18)
+  ctx.fillStyle = 'rgba(223, 231, 255, 0.78)'
+  ctx.font = '11px "Avenir Next", "Trebuchet MS", sans-serif'
+  ctx.fillText(`1 Earth radius = ${earthRadiusPx.toFixed(1)} px`, 12, 35)
+  ctx.fillText(`Moon distance = ${earthRadii.toFixed(1)} Earth radii`, 12, h - 14)
+
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.11)'
+  ctx.lineWidth = 1
+  ctx.beginPath()
+  ctx.moveTo(earthX, centerY + 18)
+  ctx.lineTo(earthX + earthRadiusPx * 10, centerY + 18)
+  ctx.stroke()
+  ctx.fillText('10 Earth radii', earthX, centerY + 34)
+
+  // Phase disc, as seen from Earth
+  const discX = w - 46
+  drawMoonPhaseDisc(ctx, discX, centerY, 24, phase)
+  ctx.fillStyle = 'rgba(223, 231, 255, 0.78)'
+  ctx.textAlign = 'center'
+  ctx.fillText('seen from Earth', discX, 18)
+  ctx.fillText(`${(phase.illuminatedFraction * 100).toFixed(0)}% lit`, discX, h - 14)
+  ctx.textAlign = 'start'
+}
+
+function drawMoonSystemInset(
+  canvas: HTMLCanvasElement,
+  ctx: CanvasRenderingContext2D,
+  system: MoonSystem,
+  view: MoonSystemView[]
+) {
+  const w = canvas.width
+  const h = canvas.height
+  ctx.clearRect(0, 0, w, h)
+
+  const bg = ctx.createLinearGradient(0, 0, w, h)
+  bg.addColorStop(0, 'rgba(7, 12, 24, 0.95)')
+  bg.addColorStop(1, 'rgba(3, 5, 11, 0.96)')
+  ctx.fillStyle = bg
+  ctx.fillRect(0, 0, w, h)
+
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.08)'
+  ctx.lineWidth = 1
+  ctx.strokeRect(0.5, 0.5, w - 1, h - 1)
+
+  // One scale for both axes, fitted to the moons' current spread on the sky.
+  const centerX = w / 2
+  const centerY = h * 0.52
+  const extentX = Math.max(system.radiusKm * 4, ...view.map((m) => Math.abs(m.x)))
+  const extentY = Math.max(system.radiusKm * 4, ...view.map((m) => Math.abs(m.y)))
+  const kmPerPx = Math.max(extentX / (w / 2 - 26), extentY / (h / 2 - 28))
+  const planetRadiusPx = system.radiusKm / kmPerPx
+  // North up, east left, as on the sky.
+  const toX = (xKm: number) => centerX - xKm / kmPerPx
+  const toY = (yKm: number) => centerY - yKm / kmPerPx
+
+  const drawMoon = (moon: MoonSystemView) => {
+    ctx.fillStyle = moon.eclipsed ? 'rgba(110, 100, 92, 0.7)' : 'rgba(236, 232, 222, 0.96)'
+    ctx.beginPath()
+    ctx.arc(toX(moon.x), toY(moon.y), Math.max(1.6, moon.radiusKm / kmPerPx), 0, Math.PI * 2)
+    ctx.fill()
+  }
+
+  for (const moon of view) if (moon.state === 'clear') drawMoon(moon)
+
+  const glow = ctx.createRadialGradient(centerX, centerY, planetRadiusPx * 0.2, centerX, centerY, planetRadiusPx * 2.2)
+  glow.addColorStop(0, 'rgba(255, 226, 180, 0.28)')
+  glow.addColorStop(1, 'rgba(255, 226, 180, 0)')
+  ctx.fillStyle = glow
+  ctx.beginPath()
+  ctx.arc(centerX, centerY, planetRadiusPx * 2.2, 0, Math.PI * 2)
+  ctx.fill()
+
+  ctx.fillStyle = 'rgba(226, 196, 150, 0.96)'
+  ctx.beginPath()
+  ctx.arc(centerX, centerY, Math.max(1.5, planetRadiusPx), 0, Math.PI * 2)
+  ctx.fill()
+
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.85)'
+  for (const moon of view) {
+    if (!moon.shadowOnDisc) continue
+    ctx.beginPath()
+    ctx.arc(toX(moon.shadowX), toY(moon.shadowY), Math.max(1.2, moon.radiusKm / kmPerPx), 0, Math.PI * 2)
+    ctx.fill()
+  }
+  for (const moon of view) if (moon.state === 'transit') drawMoon(moon)
+
+  ctx.fillStyle = 'rgba(223, 231, 255, 0.78)'
+  ctx.font = '10px "Avenir Next", "Trebuchet MS", sans-serif'
+  ctx.textAlign = 'center'
+  for (const moon of view) {
+    if (moon.state === 'occulted') continue
+    ctx.fillText(moon.name, toX(moon.x), toY(moon.y) - 6)
+  }
+  ctx.textAlign = 'start'
+
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.92)'
+  ctx.font = '12px "Avenir Next", "Trebuchet MS", sans-serif'
+  ctx.fillText(`${system.name} system, true scale`, 12, 18)
+  ctx.fillStyle = 'rgba(223, 231, 255, 0.78)'
+  ctx.font = '11px "Avenir Next", "Trebuchet MS", sans-serif'
+  ctx.textAlign = 'end'
+  ctx.fillText('N up · E left', w - 12, 18)
+  ctx.textAlign = 'start'
+
+  const events = [
+    ...view.filter((m) => m.state !== 'clear').map((m) => `${m.name} ${m.state === 'transit' ? 'in transit' : 'occulted'}`),
+    ...view.filter((m) => m.shadowOnDisc).map((m) => `${m.name} shadow on disc`),
+    ...view.filter((m) => m.eclipsed).map((m) => `${m.name} eclipsed`),
+  ]
+  ctx.fillText(events.length ? events.join(' · ') : 'No transits, occultations or eclipses', 12, h - 10)
+
+  const barRadii = [50, 20, 10, 5, 2].find((n) => (n * system.radiusKm) / kmPerPx < w / 4) ?? 1
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.11)'
+  ctx.beginPath()
+  ctx.moveTo(12, 30)
+  ctx.lineTo(12 + (system.radiusKm * barRadii) / kmPerPx, 30)
+  ctx.stroke()
+  ctx.fillText(`${barRadii} ${system.name} radii`, 12, 43)
+}
+
+function latLonToVec3(lat: number, lon: number, r: number) {
+  const latRad = (lat * Math.PI) / 180
+  const lonRad = (lon * Math.PI) / 180
+  return new THREE.Vector3(
+    r * Math.cos(latRad) * Math.cos(lonRad),
+    r * Math.sin(latRad),
+    r * Math.cos(latRad) * Math.sin(lonRad)
+  )
+}
+
+type EarthShadowInfo = {
+  // Anti-solar shadow axis distance of the Moon's centre, plus both shadow radii at the Moon.
+  offAxisKm: number
+  umbraKm: number
+  penumbraKm: number
+  umbralMagnitude: number
+  penumbralMagnitude: number
+}
+
+function earthShadowAtMoon(date: Date): EarthShadowInfo {
+  const moon = astroToThreeVec(GeoVector(Body.Moon, date, true), AU_KM)
+  const sun = astroToThreeVec(GeoVector(Body.Sun, date, true), AU_KM)
+  const sunDistanceKm = sun.length()
+  const axis = sun.clone().negate().normalize()
+  const along = moon.dot(axis)
+  const offAxisKm = moon.clone().sub(axis.multiplyScalar(along)).length()
+
+  // Danjon's 2% enlargement accounts for Earth's atmosphere thickening the shadow.
+  const umbraKm = 1.02 * (EARTH_RADIUS_KM - (along * (SUN_RADIUS_KM - EARTH_RADIUS_KM)) / sunDistanceKm)
+  const penumbraKm = 1.02 * (EARTH_RADIUS_KM + (along * (SUN_RADIUS_KM + EARTH_RADIUS_KM)) / sunDistanceKm)
+  return {
+    offAxisKm,
+    umbraKm,
+    penumbraKm,
+    umbralMagnitude: (umbraKm + MOON_RADIUS_KM - offAxisKm) / (2 * MOON_RADIUS_KM),
+    penumbralMagnitude: (penumbraKm + MOON_RADIUS_KM - offAxisKm) / (2 * MOON_RADIUS_KM),
+  }
+}
+
+type MoonShadowInfo = {
+  axisDistanceKm: number
+  penumbraKm: number
+  // Where the Moon's shadow axis meets the ground, if the eclipse is central.
+  ground: { lat: number; lon: number } | null
+}
+
+function moonShadowOnEarth(date: Date): MoonShadowInfo {
+  // Work in the equator of date so the ground point lines up with Greenwich sidereal time.
+  const rot = Rotation_EQJ_EQD(date)
+  const moon = astroToThreeVec(RotateVector(rot, GeoVector(Body.Moon, date, true)), AU_KM)
+  const sun = astroToThreeVec(RotateVector(rot, GeoVector(Body.Sun, date, true)), AU_KM)
+  const axis = moon.clone().sub(sun).normalize()
+  const b = moon.dot(axis)
+  const closest = moon.clone().sub(axis.clone().multiplyScalar(b))
+  const axisDistanceKm = closest.length()
+  const penumbraKm = MOON_RADIUS_KM + (-b * (SUN_RADIUS_KM + MOON_RADIUS_KM)) / sun.length()
+
+  const disc = b * b - (moon.lengthSq() - EARTH_RADIUS_KM * EARTH_RADIUS_KM)
+  if (b > 0 || disc < 0) return { axisDistanceKm, penumbraKm, ground: null }
+
+  // astroToThreeVec maps equatorial north to +Y.
+  const hit = moon.clone().add(axis.multiplyScalar(-b - Math.sqrt(disc)))
+  const lat = (Math.asin(hit.y / hit.length()) * 180) / Math.PI
+  let lon = (Math.atan2(hit.z, hit.x) * 180) / Math.PI - SiderealTime(date) * 15
+  lon = ((((lon + 180) % 360) + 360) % 360) - 180
+  return { axisDistanceKm, penumbraKm, ground: { lat, lon } }
+}
+
+type EclipseEvent = {
+  body: 'solar' | 'lunar'
+  kind: string
+  peak: Date
+  // Shadow magnitude for lunar eclipses. For solar ones, the fraction of the Sun's disc covered:
+  // as seen here when the eclipse is visible, else on the central line (and only there).
+  magnitude: number | undefined
+  localVisible: boolean
+  localDetail: string
+}
+
+function findEclipses(start: Date, end: Date, observer: Observer) {
+  const events: EclipseEvent[] = []
+  const moonAltitude = (date: Date) => {
+    const moonEq = Equator(Body.Moon, date, observer, true, true)
+    return Horizon(date, observer, moonEq.ra, moonEq.dec, 'normal').altitude
+  }
+
+  for (let e = SearchLunarEclipse(start); e.peak.date < end; e = NextLunarEclipse(e.peak)) {
+    const shadow = earthShadowAtMoon(e.peak.date)
+    // The Moon may rise or set mid-eclipse: check it from first to last penumbral contact.
+    const peakMs = e.peak.date.getTime()
+    const phases = [
+      { name: 'penumbral', semiMinutes: e.sd_penum },
+      { name: 'partial', semiMinutes: e.sd_partial },
+      { name: 'total', semiMinutes: e.sd_total },
+    ].filter((phase) => phase.semiMinutes > 0)
+    const seen = phases.filter((phase) => {
+      for (let minutes = -phase.semiMinutes; minutes < phase.semiMinutes; minutes += 10) {
+        if (moonAltitude(new Date(peakMs + minutes * 60000)) > 0) return true
+      }
+      return moonAltitude(new Date(peakMs + phase.semiMinutes * 60000)) > 0
+    })
+    // The phases nest, so the seen ones are the shallowest few.
+    const deepest = seen.length < phases.length && seen.length > 0
+      ? `, only the ${seen[seen.length - 1].name} phase above the horizon`
+      : ''
+    events.push({
+      body: 'lunar',
+      kind: e.kind,
+      peak: e.peak.date,
+      magnitude: e.kind === 'penumbral' ? shadow.penumbralMagnitude : shadow.umbralMagnitude,
+      localVisible: seen.length > 0,
+      localDetail: `Moon alt ${moonAltitude(e.peak.date).toFixed(0)}° at peak${deepest}`,
+    })
+  }
+
+  // The local search only returns eclipses with the Sun up at first or last contact; pair them
+  // with the global ones by peak time.
+  const local: LocalSolarEclipseInfo[] = []
+  for (let e = SearchLocalSolarEclipse(start, observer); e.peak.time.date < end; e = NextLocalSolarEclipse(e.peak.time, observer)) {
+    local.push(e)
+  }
+  for (let e = SearchGlobalSolarEclipse(start); e.peak.date < end; e = NextGlobalSolarEclipse(e.peak)) {
+    const seen = local.find((l) => Math.abs(l.peak.time.date.getTime() - e.peak.date.getTime()) < DAY_MS)
+    const centralLine = e.latitude != null && e.longitude != null
+      ? `, central at ${e.latitude.toFixed(1)}°, ${e.longitude.toFixed(1)}°`
+      : ''
+    const sunAlt = (event: { altitude: number }) => `${event.altitude.toFixed(0)}°`
+    events.push({
+      body: 'solar',
+      kind: e.kind,
+      peak: e.peak.date,
+      magnitude: seen ? seen.obscuration : e.obscuration,
+      localVisible: seen != null,
+      localDetail: seen
+        ? `${seen.kind === e.kind ? '' : `seen as ${seen.kind}, `}Sun alt ${sunAlt(seen.partial_begin)} / ${sunAlt(seen.peak)} / ${sunAlt(seen.partial_end)} at start / peak / end${centralLine}`
+        : `not visible here${centralLine}`,
+    })
+  }
+
+  events.sort((a, b) => a.peak.getTime() - b.peak.getTime())
+  return events
+}
+
+function buildEclipseListHtml(events: EclipseEvent[], filter: string, sim: Date, timeZone: string) {
+  const tokens = filter.toLowerCase().split(/\s+/).filter(Boolean)
+  const rows = events
+    .map((e) => {
+      const past = e.peak.getTime() < sim.getTime()
+      const title = `${e.kind[0].toUpperCase()}${e.kind.slice(1)} ${e.body}`
+      const searchText = `${e.kind} ${e.body} ${formatTime(e.peak, timeZone)} ${e.localVisible ? 'visible' : 'not visible'} ${past ? 'past' : 'upcoming'}`.toLowerCase()
+      if (!tokens.every((token) => searchText.includes(token))) return ''
+      const magnitudeLabel = e.magnitude == null
+        ? 'mag —'
+        : e.body === 'lunar'
+          ? `${e.kind === 'penumbral' ? 'penumbral' : 'umbral'} mag ${e.magnitude.toFixed(2)}`
+          : `${e.localVisible ? 'local' : 'central'} obscuration ${(e.magnitude * 100).toFixed(0)}%`
+      return `
+        <div class="eclipse-row${past ? ' is-past' : ''}${e.localVisible ? ' is-visible' : ''}">
+          <div class="eclipse-row-main">
+            <div><b>${escapeHtml(title)}</b> · ${formatTime(e.peak, timeZone)}</div>
+            <div class="eclipse-row-meta">${escapeHtml(magnitudeLabel)} · ${escapeHtml(e.localDetail)}</div>
+          </div>
+          <button type="button" data-peak="${e.peak.getTime()}">Go to peak</button>
+        </div>
+      `
+    })
+    .join('')
+  return rows || '<div class="chart-empty">No eclipses match.</div>'
+}
+
+type Almanac = {
+  dayStart: Date
+  sunrise: Date | null
+  sunset: Date | null
+  solarNoon: Date | null
+  dayLengthMs: number
+  twilight: Array<{ name: string; dawn: Date | null; dusk: Date | null }>
+  moonrise: Date | null
+  moonset: Date | null
+  moonTransit: Date | null
+  planets: Array<{ name: string; rise: Date | null; set: Date | null }>
+}
+
+function computeAlmanac(dayStart: Date, observer: Observer): Almanac {
+  const dayEndMs = dayStart.getTime() + DAY_MS
+  const within = (time: { date: Date } | null | undefined) =>
+    time && time.date.getTime() < dayEndMs ? time.date : null
+  const riseSet = (body: Body) => ({
+    rise: within(SearchRiseSet(body, observer, +1, dayStart, 1)),
+    set: within(SearchRiseSet(body, observer, -1, dayStart, 1)),
+  })
+
+  const sun = riseSet(Body.Sun)
+  const moon = riseSet(Body.Moon)
+
+  // Time above the horizon within the day; copes with polar day/night and with a
+  // sunset that comes before sunrise on the calendar day.
+  const sunEq = Equator(Body.Sun, dayStart, observer, true, true)
+  const upAtStart = Horizon(dayStart, observer, sunEq.ra, sunEq.dec, 'normal').altitude > -0.833
+  const events = [
+    ...(sun.rise ? [{ time: sun.rise.getTime(), up: true }] : []),
+    ...(sun.set ? [{ time: sun.set.getTime(), up: false }] : []),
+  ].sort((a, b) => a.time - b.time)
+  let dayLengthMs = 0
+  let upSinceMs: number | null = upAtStart ? dayStart.getTime() : null
+  for (const event of events) {
+    if (event.up) upSinceMs = event.time
+    else {
+      dayLengthMs += event.time - (upSinceMs ?? dayStart.getTime())
+      upSinceMs = null
+    }
+  }
+  if (upSinceMs != null) dayLengthMs += dayEndMs - upSinceMs
+
+  const twilight = [
+    { name: 'civil', altitude: -6 },
+    { name: 'nautical', altitude: -12 },
+    { name: 'astro', altitude: -18 },
+  ].map(({ name, altitude }) => ({
+    name,
+    dawn: within(SearchAltitude(Body.Sun, observer, +1, dayStart, 1, altitude)),
+    dusk: within(SearchAltitude(Body.Sun, observer, -1, dayStart, 1, altitude)),
+  }))
+
+  const planets = [Body.Mercury, Body.Venus, Body.Mars, Body.Jupiter, Body.Saturn].map((body) => ({
+    name: `${body}`,
+    ...riseSet(body),
+  }))
+
+  return {
+    dayStart,
+    sunrise: sun.rise,
+    sunset: sun.set,
+    solarNoon: within(SearchHourAngle(Body.Sun, observer, 0, dayStart, +1).time),
+    dayLengthMs,
+    twilight,
+    moonrise: moon.rise,
+    moonset: moon.set,
+    moonTransit: within(SearchHourAngle(Body.Moon, observer, 0, dayStart, +1).time),
+    planets,
+  }
+}
+
+function formatClock(d: Date | null, timeZone?: string) {
+  return d ? formatTime(d, timeZone).slice(11, 16) : '—'
+}
+
+function compassPoint(azimuthDeg: number) {
+  return ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'][Math.round((((azimuthDeg % 360) + 360) % 360) / 45) % 8]
+}
+
+function formatDuration(ms: number) {
+  const totalMinutes = Math.round(ms / 60000)
+  return `${Math.floor(totalMinutes / 60)}h ${`${totalMinutes % 60}`.padStart(2, '0')}m`
+}
+
+// A body the info cards can observe: the Sun, Moon and planets through astronomy-engine,
+// anything else through its heliocentric J2000 equatorial vector in AU.
+type ObservedBody = {
+  name: string
+  kind: string
+  radiusKm?: number
+  body?: Body
+  helio?: (date: Date) => AstroVector
+}
+
+type BodyObservation = {
+  helioAU: number | null // null for the Sun
+  geoAU: number
+  lightTimeSec: number
+  // Topocentric, of date; the constellation comes from the J2000 place.
+  raHours: number
+  decDeg: number
+  altDeg: number // refracted
+  azDeg: number
+  constellation: string
+  magnitude: number | null
+  phaseFraction: number | null
+  phaseAngleDeg: number | null
+  elongationDeg: number | null
+  angularDiameterArcsec: number | null
+}
+
+const LIGHT_SPEED_KM_S = 299792.458
+
+// Where the body appears from the observer at `date`, light-time corrected. Magnitudes need
+// astronomy-engine's photometric models, so they are only known for its bodies.
+function observeBody(target: ObservedBody, date: Date, observer: Observer): BodyObservation {
+  const time = MakeTime(date)
+  let geo: AstroVector
+  let j2000: EquatorialCoordinates
+  let ofDate: EquatorialCoordinates
+  let helioAU: number | null
+  let magnitude: number | null = null
+  let phaseAngleDeg: number | null = null
+  let elongationDeg: number | null = null
+
+  if (target.body != null) {
+    const body = target.body
+    geo = GeoVector(body, date, true)
+    j2000 = Equator(body, date, observer, false, true)
+    ofDate = Equator(body, date, observer, true, true)
+    helioAU = body === Body.Sun ? null : HelioDistance(body, date)
+    const illumination = Illumination(body, date)
+    magnitude = illumination.mag
+    if (body !== Body.Sun) {
+      phaseAngleDeg = illumination.phase_angle
+      elongationDeg = AngleFromSun(body, date)
+    }
+  } else if (target.helio) {
+    const earth = HelioVector(Body.Earth, date)
+    const toGeo = (v: AstroVector) => new AstroVector(v.x - earth.x, v.y - earth.y, v.z - earth.z, time)
+    // One light-time step: the body is seen where it was when the light left it.
+    const lightTimeDays = vectorLength(toGeo(target.helio(date))) / C_AUDAY
+    const helio = target.helio(new Date(date.getTime() - lightTimeDays * DAY_MS))
+    geo = toGeo(helio)
+    const site = ObserverVector(time, observer, false)
+    const topo = new AstroVector(geo.x - site.x, geo.y - site.y, geo.z - site.z, time)
+    j2000 = EquatorFromVector(topo)
+    ofDate = EquatorFromVector(RotateVector(Rotation_EQJ_EQD(time), topo))
+    helioAU = vectorLength(helio)
+    phaseAngleDeg = AngleBetween(helio, geo)
+    elongationDeg = AngleBetween(geo, GeoVector(Body.Sun, date, true))
+  } else {
+    throw new Error(`No way to observe ${target.name}`)
+  }
+
+  const geoAU = vectorLength(geo)
+  const horizontal = Horizon(date, observer, ofDate.ra, ofDate.dec, 'normal')
+  return {
+    helioAU,
+    geoAU,
+    lightTimeSec: (geoAU * AU_KM) / LIGHT_SPEED_KM_S,
+    raHours: ofDate.ra,
+    decDeg: ofDate.dec,
+    altDeg: horizontal.altitude,
+    azDeg: horizontal.azimuth,
+    constellation: Constellation(j2000.ra, j2000.dec).name,
+    magnitude,
+    phaseFraction: phaseAngleDeg == null ? null : (1 + Math.cos((phaseAngleDeg * Math.PI) / 180)) / 2,
+    phaseAngleDeg,
+    elongationDeg,
+    angularDiameterArcsec:
+      target.radiusKm == null ? null : ((2 * Math.atan(target.radiusKm / (ofDate.dist * AU_KM)) * 180) / Math.PI) * 3600,
+  }
+}
+
+function formatLightTime(seconds: number) {
+  if (seconds < 60) return `${seconds.toFixed(2)} s`
+  const totalSeconds = Math.round(seconds)
+  if (totalSeconds < 3600) return `${Math.floor(totalSeconds / 60)}m ${`${totalSeconds % 60}`.padStart(2, '0')}s`
+  return formatDuration(totalSeconds * 1000)
+}
+
+function formatAngularSize(arcsec: number) {
+  if (arcsec >= 60) return `${(arcsec / 60).toFixed(1)}′`
+  return arcsec >= 1 ? `${arcsec.toFixed(1)}″` : `${arcsec.toFixed(3)}″`
+}
+
+type HubbleRejection = 'none' | 'sigma-clip' | 'huber'
+
+type HubbleFitOptions = {
+  minDistanceMpc: number
+  maxDistanceMpc: number
+  throughOrigin: boolean
+  rejection: HubbleRejection
+}
+
+const HUBBLE_REJECTIONS: Record<HubbleRejection, string> = {
+  none: 'plain least squares',
+  'sigma-clip': '3σ clipping',
+  huber: 'Huber weights',
+}
+
+const DEFAULT_HUBBLE_FIT: HubbleFitOptions = { minDistanceMpc: 5, maxDistanceMpc: 250, throughOrigin: false, rejection: 'none' }
+
+type HubbleFit = {
+  slope: number
+  intercept: number
+  sampleCount: number
+  rejectedCount: number
+  // Final fit weight of each galaxy inside the window: 1 kept, 0 rejected, in between down-weighted.
+  weights: Map<GalaxySample, number>
+  // Residual spread of the kept galaxies (robust for Huber).
+  scatterKms: number
+  // Weighted mean distance, where the slope's uncertainty pivots (0 through the origin).
+  pivotMpc: number
+  // 16th–84th percentile of the slope over bootstrap resamples.
+  slopeInterval: [number, number]
+  bootstrapCount: number
+  options: HubbleFitOptions
+}
+
+function seededRandom(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// Quickselect, reordering `values` in place; the upper median for even counts.
+function medianOf(values: Float64Array) {
+  const k = values.length >> 1
+  let [lo, hi] = [0, values.length - 1]
+  while (lo < hi) {
+    const pivot = values[(lo + hi) >> 1]
+    let [i, j] = [lo, hi]
+    while (i <= j) {
+      while (values[i] < pivot) i++
+      while (values[j] > pivot) j--
+      if (i <= j) {
+        ;[values[i], values[j]] = [values[j], values[i]]
+        i++
+        j--
+      }
+    }
+    if (k <= j) hi = j
+    else if (k >= i) lo = i
+    else break
+  }
+  return values[k]
+}
+
+function weightedLineFit(d: Float64Array, v: Float64Array, w: Float64Array, throughOrigin: boolean) {
+  let sw = 0
+  let sx = 0
+  let sy = 0
+  for (let i = 0; i < d.length; i++) {
+    sw += w[i]
+    sx += w[i] * d[i]
+    sy += w[i] * v[i]
+  }
+  const [meanX, meanY] = throughOrigin ? [0, 0] : [sx / sw, sy / sw]
+  let sxx = 0
+  let sxy = 0
+  for (let i = 0; i < d.length; i++) {
+    const dx = d[i] - meanX
+    sxx += w[i] * dx * dx
+    sxy += w[i] * dx * (v[i] - meanY)
+  }
+  const slope = sxx > 0 ? sxy / sxx : Number.NaN
+  return { slope, intercept: meanY - slope * meanX, pivot: meanX }
+}
+
+// Clipping drops galaxies beyond 3σ of the kept set until nothing changes; Huber's M-estimator
+// re-weights by 1.345σ/|r| beyond 1.345σ, with σ from the median absolute deviation.
+function robustHubbleLine(d: Float64Array, v: Float64Array, throughOrigin: boolean, rejection: HubbleRejection) {
+  const n = d.length
+  const w = new Float64Array(n).fill(1)
+  const residuals = new Float64Array(n)
+  let line = weightedLineFit(d, v, w, throughOrigin)
+  let scatter = 0
+  for (let iter = 0; iter < 30; iter++) {
+    let sumW = 0
+    let sumR2 = 0
+    for (let i = 0; i < n; i++) {
+      residuals[i] = v[i] - (line.slope * d[i] + line.intercept)
+      sumW += w[i]
+      sumR2 += w[i] * residuals[i] * residuals[i]
+    }
+    if (rejection === 'huber') {
+      scatter = 1.4826 * medianOf(residuals.map(Math.abs))
+    } else {
+      scatter = Math.sqrt(sumR2 / Math.max(1, sumW))
+    }
+    if (rejection === 'none' || !(scatter > 0)) break
+
+    let changed = false
+    for (let i = 0; i < n; i++) {
+      const r = Math.abs(residuals[i])
+      const next = rejection === 'huber' ? (r <= 1.345 * scatter ? 1 : (1.345 * scatter) / r) : r <= 3 * scatter ? 1 : 0
+      if (next !== w[i]) changed = true
+      w[i] = next
+    }
+    if (!changed) break
+    const previous = line.slope
+    line = weightedLineFit(d, v, w, throughOrigin)
+    if (rejection === 'huber' && Math.abs(line.slope - previous) < 1e-5 * Math.abs(previous)) break
+  }
+  return { ...line, weights: w, scatter }
+}
+
+// Galaxy refits allowed across all bootstrap resamples, so large samples stay responsive.
+const HUBBLE_BOOTSTRAP_BUDGET = 1e6
+
+function fitHubbleSample(samples: GalaxySample[], options = DEFAULT_HUBBLE_FIT, bootstrapCount = 200): HubbleFit {
+  const subset = samples.filter(
+    (sample) => sample.distanceMpc > options.minDistanceMpc && sample.distanceMpc <= options.maxDistanceMpc
+  )
+  const empty: HubbleFit = {
+    slope: Number.NaN,
+    intercept: Number.NaN,
+    sampleCount: subset.length,
+    rejectedCount: 0,
+    weights: new Map(),
+    scatterKms: Number.NaN,
+    pivotMpc: 0,
+    slopeInterval: [Number.NaN, Number.NaN],
+    bootstrapCount: 0,
+    options,
+  }
+  if (subset.length < 3) return empty
+
+  const d = Float64Array.from(subset, (sample) => sample.distanceMpc)
+  const v = Float64Array.from(subset, (sample) => sample.velocityKms)
+  const fit = robustHubbleLine(d, v, options.throughOrigin, options.rejection)
+  if (!Number.isFinite(fit.slope)) return empty
+
+  // Resampling galaxies with replacement, refitting each the same way. A fixed seed keeps
+  // the interval steady between recomputes; large samples get fewer resamples, at least 20.
+  const resamples = Math.min(bootstrapCount, Math.max(20, Math.floor(HUBBLE_BOOTSTRAP_BUDGET / subset.length)))
+  const random = seededRandom(subset.length)
+  const slopes: number[] = []
+  const bd = new Float64Array(subset.length)
+  const bv = new Float64Array(subset.length)
+  for (let b = 0; b < resamples; b++) {
+    for (let i = 0; i < subset.length; i++) {
+      const pick = Math.floor(random() * subset.length)
+      bd[i] = d[pick]
+      bv[i] = v[pick]
+    }
+    const slope = robustHubbleLine(bd, bv, options.throughOrigin, options.rejection).slope
+    if (Number.isFinite(slope)) slopes.push(slope)
+  }
+  slopes.sort((a, b) => a - b)
+  const percentile = (p: number) => slopes[Math.min(slopes.length - 1, Math.round(p * (slopes.length - 1)))]
+
+  return {
+    slope: fit.slope,
+    intercept: fit.intercept,
+    sampleCount: subset.length,
+    rejectedCount: fit.weights.reduce((count, w) => count + (w === 0 ? 1 : 0), 0),
+    weights: new Map(subset.map((sample, i) => [sample, fit.weights[i]])),
+    scatterKms: fit.scatter,
+    pivotMpc: fit.pivot,
+    slopeInterval: slopes.length ? [percentile(0.16), percentile(0.84)] : [Number.NaN, Number.NaN],
+    bootstrapCount: slopes.length,
+    options,
+  }
+}
+
+// Planck 2018 (TT,TE,EE+lowE+lensing) and SH0ES (Riess et al. 2022), km/s/Mpc with 1σ errors.
+const H0_REFERENCES = [
+  { label: 'Planck', h0: 67.4, sigma: 0.5, color: 'rgb(120 190 255)' },
+  { label: 'SH0ES', h0: 73.04, sigma: 1.04, color: 'rgb(255 130 190)' },
+]
+
+// How far the fit's slope sits from a reference H0, in combined standard deviations. The fit's
+// σ is half its bootstrap 68% interval.
+function hubbleTensionSigma(fit: HubbleFit, reference: { h0: number; sigma: number }) {
+  const fitSigma = (fit.slopeInterval[1] - fit.slopeInterval[0]) / 2
+  return (fit.slope - reference.h0) / Math.hypot(fitSigma, reference.sigma)
+}
+
+type HubbleChartMode = 'velocity' | 'residuals'
+
+type HubbleChartCurve = {
+  label: string
+  color: string
+  dashed?: boolean
+  velocityAt: (distanceMpc: number) => number
+}
+
+type HubbleChartView = { xMin: number; xMax: number; yMin: number; yMax: number }
+
+type HubbleChartPoint = { sample: GalaxySample; x: number; y: number; residualKms: number }
+
+const HUBBLE_CHART = { width: 300, height: 118, padL: 34, padR: 10, padT: 8, padB: 22 }
+// Zoom limits on the axis spans, in Mpc and km/s.
+const HUBBLE_ZOOM = { minSpanMpc: 0.1, maxSpanMpc: 100000, minSpanKms: 10, maxSpanKms: 1000000 }
+
+function defaultHubbleChartView(samples: GalaxySample[], fit: HubbleFit, mode: HubbleChartMode): HubbleChartView {
+  // Reduced rather than spread: a loaded catalog can exceed the engine's argument limit.
+  const xMax = samples.reduce((max, s) => Math.max(max, s.distanceMpc), 20)
+  if (mode === 'residuals') {
+    const span = Number.isFinite(fit.scatterKms) ? Math.max(300, 4 * fit.scatterKms) : 1500
+    return { xMin: 0, xMax, yMin: -span, yMax: span }
+  }
+  const slope = Number.isFinite(fit.slope) ? fit.slope : 0
+  const intercept = Number.isFinite(fit.intercept) ? fit.intercept : 0
+  const yMax = samples.reduce((max, s) => Math.max(max, s.velocityKms), Math.max(1500, slope * xMax + intercept))
+  const yMin = samples.reduce((min, s) => Math.min(min, s.velocityKms), -1000)
+  return { xMin: 0, xMax, yMin, yMax }
+}
+
+// Round tick spacing giving about `count` ticks across the range.
+function niceTickStep(span: number, count: number) {
+  const raw = span / count
+  const power = 10 ** Math.floor(Math.log10(raw))
+  return [1, 2, 5, 10].map((m) => m * power).find((step) => step >= raw)!
+}
+
+function buildHubbleChartSvg(
+  samples: GalaxySample[],
+  fit: HubbleFit,
+  view: HubbleChartView,
+  mode: HubbleChartMode,
+  curves: HubbleChartCurve[] = [],
+  highlight: GalaxySample | null = null,
+  maxPoints = 700
+) {
+  if (samples.length === 0) {
+    return { svg: '<div class="chart-empty">No galaxy sample loaded.</div>', points: [] as HubbleChartPoint[] }
+  }
+
+  const { width, height, padL, padR, padT, padB } = HUBBLE_CHART
+  const sx = (d: number) => padL + ((d - view.xMin) / (view.xMax - view.xMin)) * (width - padL - padR)
+  const sy = (v: number) => height - padB - ((v - view.yMin) / (view.yMax - view.yMin)) * (height - padT - padB)
+  const hasFit = Number.isFinite(fit.slope)
+  const model = (d: number) => (hasFit ? fit.slope * d + fit.intercept : 0)
+  const font = 'font-family="Avenir Next, Trebuchet MS, sans-serif"'
+
+  // Thinned evenly so zooming in reveals more galaxies rather than piling more circles on.
+  const inView = samples.filter((s) => {
+    const y = mode === 'velocity' ? s.velocityKms : s.velocityKms - model(s.distanceMpc)
+    return s.distanceMpc >= view.xMin && s.distanceMpc <= view.xMax && y >= view.yMin && y <= view.yMax
+  })
+  const step = Math.max(1, Math.ceil(inView.length / maxPoints))
+  const points: HubbleChartPoint[] = inView
+    .filter((_, i) => i % step === 0)
+    .map((sample) => {
+      const residualKms = sample.velocityKms - model(sample.distanceMpc)
+      return {
+        sample,
+        x: sx(sample.distanceMpc),
+        y: sy(mode === 'velocity' ? sample.velocityKms : residualKms),
+        residualKms,
+      }
+    })
+  // The selected galaxy is ringed even when thinning or the view leaves it out of `points`.
+  let highlightRing = ''
+  if (highlight) {
+    const y = mode === 'velocity' ? highlight.velocityKms : highlight.velocityKms - model(highlight.distanceMpc)
+    highlightRing = `<circle cx="${sx(highlight.distanceMpc).toFixed(1)}" cy="${sy(y).toFixed(1)}" r="4" fill="none" stroke="rgb(255 255 255)" stroke-width="1.2" />`
+    const shown = highlight.distanceMpc >= view.xMin && highlight.distanceMpc <= view.xMax && y >= view.yMin && y <= view.yMax
+    if (shown && !points.some((point) => point.sample === highlight)) {
+      points.push({ sample: highlight, x: sx(highlight.distanceMpc), y: sy(y), residualKms: highlight.velocityKms - model(highlight.distanceMpc) })
+    }
+  }
+  const circles = points
+    .map(({ sample, x, y }) => {
+      const weight = fit.weights.get(sample)
+      const fill = weight == null ? 'rgb(150 160 180)' : weight === 0 ? 'rgb(255 128 128)' : 'rgb(170 231 255)'
+      const alpha = weight == null ? 0.25 : weight === 0 ? 0.8 : 0.3 + 0.55 * weight
+      return `<circle cx="${x.toFixed(1)}" cy="${y.toFixed(1)}" r="1.6" fill="${fill}" fill-opacity="${alpha.toFixed(2)}" />`
+    })
+    .join('')
+
+  const xStep = niceTickStep(view.xMax - view.xMin, 5)
+  const yStep = niceTickStep(view.yMax - view.yMin, 4)
+  // Ticks are counted from the first one rather than accumulated, and capped in number.
+  const ticks = (min: number, max: number, step: number) => {
+    const first = Math.ceil(min / step)
+    const out: number[] = []
+    for (let i = 0; i < 12 && (first + i) * step <= max; i++) out.push((first + i) * step)
+    return out
+  }
+  const xTicks = ticks(view.xMin, view.xMax, xStep)
+  const yTicks = ticks(view.yMin, view.yMax, yStep)
+  const tickLabel = (value: number) => `${+value.toPrecision(6)}`
+  const grid = [
+    ...xTicks.map(
+      (x) => `
+        <line x1="${sx(x).toFixed(1)}" y1="${padT}" x2="${sx(x).toFixed(1)}" y2="${height - padB}" stroke="rgba(255,255,255,0.06)" />
+        <text x="${sx(x).toFixed(1)}" y="${height - padB + 9}" text-anchor="middle" fill="rgba(255,255,255,0.5)" font-size="7" ${font}>${tickLabel(x)}</text>`
+    ),
+    ...yTicks.map(
+      (y) => `
+        <line x1="${padL}" y1="${sy(y).toFixed(1)}" x2="${width - padR}" y2="${sy(y).toFixed(1)}" stroke="rgba(255,255,255,${y === 0 ? 0.18 : 0.06})" />
+        <text x="${padL - 3}" y="${(sy(y) + 2.5).toFixed(1)}" text-anchor="end" fill="rgba(255,255,255,0.5)" font-size="7" ${font}>${tickLabel(y)}</text>`
+    ),
+  ].join('')
+
+  // Dimmed outside the fit's distance window.
+  const windowShade = [
+    [view.xMin, fit.options.minDistanceMpc],
+    [fit.options.maxDistanceMpc, view.xMax],
+  ]
+    .map(([a, b]) => [sx(Math.max(a, view.xMin)), sx(Math.min(b, view.xMax))])
+    .filter(([a, b]) => b > a)
+    .map(
+      ([a, b]) =>
+        `<rect x="${a.toFixed(1)}" y="${padT}" width="${(b - a).toFixed(1)}" height="${height - padT - padB}" fill="rgba(0,0,0,0.35)" />`
+    )
+    .join('')
+
+  let fitLines = ''
+  if (hasFit) {
+    const bandAt = (slope: number, d: number) => {
+      const v = model(fit.pivotMpc) + slope * (d - fit.pivotMpc)
+      return mode === 'velocity' ? v : v - model(d)
+    }
+    const [lo, hi] = fit.slopeInterval
+    if (Number.isFinite(lo) && Number.isFinite(hi)) {
+      const corners = [
+        [view.xMin, bandAt(lo, view.xMin)],
+        [view.xMax, bandAt(lo, view.xMax)],
+        [view.xMax, bandAt(hi, view.xMax)],
+        [view.xMin, bandAt(hi, view.xMin)],
+      ]
+      fitLines += `<polygon points="${corners.map(([d, v]) => `${sx(d).toFixed(1)},${sy(v).toFixed(1)}`).join(' ')}" fill="rgb(255 204 102)" fill-opacity="0.22" />`
+    }
+    const y1 = mode === 'velocity' ? model(view.xMin) : 0
+    const y2 = mode === 'velocity' ? model(view.xMax) : 0
+    fitLines += `<line x1="${padL}" y1="${sy(y1).toFixed(1)}" x2="${width - padR}" y2="${sy(y2).toFixed(1)}" stroke="rgb(255 204 102)" stroke-opacity="0.9" stroke-width="1.5" />`
+  }
 
-  const sx = (d: number) => padL + (d / xMax) * (width - padL - padR)
-  const sy = (v: number) => height - padB - ((v + yMax) / (2 * yMax)) * (height - padT - padB)
-  const fitY1 = sy(fit.intercept)
-  const fitY2 = sy(fit.slope * xMax + fit.intercept)
-
-  const points = subset
-    .map((s) => {
-      const x = sx(s.distanceMpc)
-      const y = sy(s.velocityKms)
-      const density = clamp(s.distanceMpc / xMax, 0, 1)
-      const r = 1.3 + density * 0.9
-      const alpha = 0.28 + density * 0.58
-      return `<circle cx="${x.toFixed(1)}" cy="${y.toFixed(1)}" r="${r.toFixed(1)}" fill="rgb(170 231 255)" fill-opacity="${alpha.toFixed(3)}" />`
+  // Curves are sampled across the view; in the residual plot they are drawn relative to the fit.
+  const curveLines = curves
+    .map((curve) => {
+      const coords: string[] = []
+      for (let i = 0; i <= 80; i++) {
+        const d = view.xMin + ((view.xMax - view.xMin) * i) / 80
+        const v = curve.velocityAt(d) - (mode === 'velocity' ? 0 : model(d))
+        if (Number.isFinite(v)) coords.push(`${sx(d).toFixed(1)},${sy(v).toFixed(1)}`)
+      }
+      const dash = curve.dashed ? ' stroke-dasharray="3 2"' : ''
+      return `<polyline points="${coords.join(' ')}" fill="none" stroke="${curve.color}" stroke-opacity="0.85" stroke-width="1"${dash} />`
     })
     .join('')
-
-  const gridLines = [0, 0.25, 0.5, 0.75, 1]
-    .map((t) => {
-      const x = padL + t * (width - padL - padR)
-      const y = padT + t * (height - padT - padB)
-      return `
-        <line x1="${x.toFixed(1)}" y1="${padT}" x2="${x.toFixed(1)}" y2="${height - padB}" stroke="rgba(255,255,255,0.06)" />
-        <line x1="${padL}" y1="${y.toFixed(1)}" x2="${width - padR}" y2="${y.toFixed(1)}" stroke="rgba(255,255,255,0.06)" />
-      `
+  let legendX = padL + 4
+  const legend = [...(hasFit ? [{ label: 'fit', color: 'rgb(255 204 102)', dashed: false }] : []), ...curves]
+    .map((entry) => {
+      const dash = entry.dashed ? ' stroke-dasharray="3 2"' : ''
+      const item = `
+        <line x1="${legendX}" y1="${padT + 6}" x2="${legendX + 8}" y2="${padT + 6}" stroke="${entry.color}" stroke-width="1.5"${dash} />
+        <text x="${legendX + 10}" y="${padT + 8.5}" fill="rgba(255,255,255,0.72)" font-size="6.5" ${font}>${escapeHtml(entry.label)}</text>`
+      legendX += 16 + entry.label.length * 3.3
+      return item
     })
     .join('')
 
-  const axis = `
-    <line x1="${padL}" y1="${height - padB}" x2="${width - padR}" y2="${height - padB}" stroke="rgba(255,255,255,0.24)" />
-    <line x1="${padL}" y1="${padT}" x2="${padL}" y2="${height - padB}" stroke="rgba(255,255,255,0.24)" />
-  `
-
-  const line = `
-    <line x1="${padL}" y1="${fitY1.toFixed(1)}" x2="${width - padR}" y2="${fitY2.toFixed(1)}" stroke="rgb(255 204 102)" stroke-opacity="0.9" stroke-width="2" />
-  `
-
-  return `
-    <svg class="hubble-chart" viewBox="0 0 ${width} ${height}" role="img" aria-label="Galaxy distance versus recession velocity chart">
+  const svg = `
+    <svg class="hubble-chart" viewBox="0 0 ${width} ${height}" role="img" aria-label="${mode === 'velocity' ? 'Galaxy distance versus recession velocity chart' : 'Hubble fit residuals versus distance chart'}">
       <defs>
         <linearGradient id="hubbleGlow" x1="0" y1="0" x2="1" y2="1">
           <stop offset="0%" stop-color="rgb(86 184 255)" stop-opacity="0.18" />
           <stop offset="100%" stop-color="rgb(255 204 102)" stop-opacity="0.05" />
         </linearGradient>
+        <clipPath id="hubblePlot">
+          <rect x="${padL}" y="${padT}" width="${width - padL - padR}" height="${height - padT - padB}" />
+        </clipPath>
       </defs>
       <rect x="0" y="0" width="${width}" height="${height}" rx="14" fill="url(#hubbleGlow)" />
-      ${gridLines}
-      ${axis}
-      ${line}
-      ${points}
-      <text x="12" y="18" fill="rgba(255,255,255,0.88)" font-size="11" font-family="Avenir Next, Trebuchet MS, sans-serif">Hubble sample</text>
-      <text x="${width - 10}" y="${height - 4}" text-anchor="end" fill="rgba(255,255,255,0.58)" font-size="9" font-family="Avenir Next, Trebuchet MS, sans-serif">distance (Mpc)</text>
-      <text x="12" y="${height - 4}" fill="rgba(255,255,255,0.58)" font-size="9" font-family="Avenir Next, Trebuchet MS, sans-serif">velocity (km/s)</text>
+      ${grid}
+      <line x1="${padL}" y1="${height - padB}" x2="${width - padR}" y2="${height - padB}" stroke="rgba(255,255,255,0.24)" />
+      <line x1="${padL}" y1="${padT}" x2="${padL}" y2="${height - padB}" stroke="rgba(255,255,255,0.24)" />
+      <g clip-path="url(#hubblePlot)">
+        ${windowShade}
+        ${fitLines}
+        ${circles}
+        ${curveLines}
+        ${highlightRing}
+      </g>
+      ${legend}
+      <text x="${width - 10}" y="${height - 3}" text-anchor="end" fill="rgba(255,255,255,0.58)" font-size="8" ${font}>distance (Mpc)</text>
+      <text x="8" y="${height - 3}" fill="rgba(255,255,255,0.58)" font-size="8" ${font}>${mode === 'velocity' ? 'velocity (km/s)' : 'residual (km/s)'}</text>
     </svg>
   `
+  return { svg, points }
 }
 
 export async function buildEarthPanel(
@@ -493,6 +4004,7 @@ export async function buildEarthPanel(
   opts: {
     getLat: () => number
     getLon: () => number
+    getElevationM?: () => number
     getLabel?: () => string
     getTextureOffsetDeg?: () => number
     getWeatherLines?: () => string[]
@@ -500,33 +4012,17 @@ export async function buildEarthPanel(
 ) {
   const { scene, camera, controls } = panel
 
-  // Lights
-  // Keep ambient low so the night side is actually dark.
-  const ambient = new THREE.AmbientLight(0x112233, 0.12)
-  scene.add(ambient)
-
-  const sunLight = new THREE.DirectionalLight(0xffffff, 1.8)
-  sunLight.position.set(5, 0, 0)
-  scene.add(sunLight)
-
-  // Earth (higher-res day texture)
-  const dayUrl = `${import.meta.env.BASE_URL}textures/earth_day_4k.jpg`
-  const dayTex = await new THREE.TextureLoader().loadAsync(dayUrl)
-  dayTex.colorSpace = THREE.SRGBColorSpace
-  dayTex.anisotropy = 8
-  dayTex.wrapS = THREE.RepeatWrapping
+  // Earth: day/night shader lit from the Sun direction, so no scene lights needed.
+  const [dayTex, nightTex] = await Promise.all([
+    loadEarthTexture('earth_day_4k.jpg'),
+    loadEarthTexture('earth_night_4k.jpg'),
+  ])
 
-  const earth = new THREE.Mesh(
-    new THREE.SphereGeometry(1, 96, 96),
-    new THREE.MeshStandardMaterial({ map: dayTex, roughness: 1, metalness: 0 })
-  )
+  const earth = new THREE.Mesh(new THREE.SphereGeometry(1, 96, 96), makeEarthMaterial(dayTex, nightTex))
   scene.add(earth)
 
-  // Simple atmosphere rim
-  const atmo = new THREE.Mesh(
-    new THREE.SphereGeometry(1.03, 64, 64),
-    new THREE.MeshBasicMaterial({ color: 0x2a7fff, transparent: true, opacity: 0.08 })
-  )
+  // Scattering atmosphere rim
+  const atmo = new THREE.Mesh(new THREE.SphereGeometry(1.03, 64, 64), makeAtmosphereMaterial())
   scene.add(atmo)
 
   // Location marker (attach to Earth so it rotates correctly)
@@ -551,7 +4047,8 @@ export async function buildEarthPanel(
     // so the lit hemisphere agrees with Astronomy Engine's local altitude.
     const gv = GeoVector(Body.Sun, t.sim, true)
     const sunDir = unit(astroToThreeVec(gv, 1))
-    sunLight.position.copy(sunDir.multiplyScalar(5))
+    earth.material.uniforms.sunDirection.value.copy(sunDir)
+    atmo.material.uniforms.sunDirection.value.copy(sunDir)
 
     // Earth orientation: rotate Earth-fixed longitudes into the same equatorial frame as the Sun vector.
     // Use Greenwich sidereal time to spin the Earth around its north axis.
@@ -559,7 +4056,7 @@ export async function buildEarthPanel(
     const gstRad = (gstHours * 15 * Math.PI) / 180
 
     const texOff = opts.getTextureOffsetDeg ? opts.getTextureOffsetDeg() : textureOffsetDeg
-    dayTex.offset.x = texOff / 360
+    earth.material.uniforms.uvOffset.value = texOff / 360
 
     earth.rotation.set(0, 0, 0)
     atmo.rotation.set(0, 0, 0)
@@ -582,7 +4079,7 @@ export async function buildEarthPanel(
     )
 
     // Local sun altitude/azimuth
-    const observer = new Observer(lat, lon, 0)
+    const observer = new Observer(lat, lon, opts.getElevationM ? opts.getElevationM() : 0)
     const eqTop = Equator(Body.Sun, t.sim, observer, true, true)
     const hor = Horizon(t.sim, observer, eqTop.ra, eqTop.dec, 'normal')
 
@@ -606,7 +4103,17 @@ export async function buildEarthPanel(
   camera.position.set(0, 1.2, 3.0)
 }
 
-export function buildSolarPanel(panel: Panel) {
+export function buildSolarPanel(
+  panel: Panel,
+  opts: {
+    getShowOrbitMarkers?: () => boolean
+    getShowSmallBodies?: () => boolean
+    getShowPlanetMoons?: () => boolean
+    getTrailSpan?: () => TrailSpan
+    smallBodies?: SmallBody[]
+    planetMoons?: PlanetMoon[]
+  } = {}
+) {
   const { scene, camera, controls } = panel
 
   const ambient = new THREE.AmbientLight(0x223344, 0.25)
@@ -616,8 +4123,11 @@ export function buildSolarPanel(panel: Panel) {
   sunLight.position.set(0, 0, 0)
   scene.add(sunLight)
 
-  // Scene scale: 1 unit = 1 AU
+  // Scene scale: 1 unit = 1 AU. Only the moon systems draw sizes through it: about the
+  // marker size, by the cube root of the moon's radius.
   const AU = 1
+  const sceneScale = linearSceneScale(AU, (radiusKm) => 0.012 * clamp(Math.cbrt(radiusKm / MOON_RADIUS_KM), 0.4, 1.2))
+  const sceneFrame = makeSceneFrame()
 
   // Sun
   const sun = new THREE.Mesh(
@@ -632,38 +4142,23 @@ export function buildSolarPanel(panel: Panel) {
     name: string
     color: number
     radius: number
-    aAU: number // approximate semi-major axis, for orbit rings
   }> = [
-    { body: Body.Mercury, name: 'Mercury', color: 0xb0b0b0, radius: 0.035, aAU: 0.387 },
-    { body: Body.Venus,   name: 'Venus',   color: 0xe7c27c, radius: 0.050, aAU: 0.723 },
-    { body: Body.Earth,   name: 'Earth',   color: 0x5aa9ff, radius: 0.055, aAU: 1.0 },
-    { body: Body.Mars,    name: 'Mars',    color: 0xff7760, radius: 0.040, aAU: 1.524 },
-    { body: Body.Jupiter, name: 'Jupiter', color: 0xd9b38c, radius: 0.090, aAU: 5.203 },
-    { body: Body.Saturn,  name: 'Saturn',  color: 0xe8d39a, radius: 0.080, aAU: 9.537 },
-    { body: Body.Uranus,  name: 'Uranus',  color: 0x9ad8e8, radius: 0.070, aAU: 19.191 },
-    { body: Body.Neptune, name: 'Neptune', color: 0x6f89ff, radius: 0.070, aAU: 30.07 },
+    { body: Body.Mercury, name: 'Mercury', color: 0xb0b0b0, radius: 0.035 },
+    { body: Body.Venus,   name: 'Venus',   color: 0xe7c27c, radius: 0.050 },
+    { body: Body.Earth,   name: 'Earth',   color: 0x5aa9ff, radius: 0.055 },
+    { body: Body.Mars,    name: 'Mars',    color: 0xff7760, radius: 0.040 },
+    { body: Body.Jupiter, name: 'Jupiter', color: 0xd9b38c, radius: 0.090 },
+    { body: Body.Saturn,  name: 'Saturn',  color: 0xe8d39a, radius: 0.080 },
+    { body: Body.Uranus,  name: 'Uranus',  color: 0x9ad8e8, radius: 0.070 },
+    { body: Body.Neptune, name: 'Neptune', color: 0x6f89ff, radius: 0.070 },
   ]
 
-  // Trails: short fading path behind each planet
-  type Trail = {
-    positions: Float32Array
-    geom: THREE.BufferGeometry
-    line: THREE.Line<THREE.BufferGeometry, THREE.LineBasicMaterial>
-    index: number
-    count: number
-  }
-
-  const TRAIL_POINTS = 512
-  const trails = new Map<Body, Trail>()
-
-  // Orbit rings (flat ecliptic plane for readability)
+  // Orbit paths: true elliptical, inclined orbits sampled over one period
+  const orbits = new Map<Body, OrbitPath>()
   for (const b of bodies) {
-    const ring = new THREE.Mesh(
-      new THREE.RingGeometry(b.aAU * AU - 0.01, b.aAU * AU + 0.01, 192),
-      new THREE.MeshBasicMaterial({ color: 0x29405f, side: THREE.DoubleSide, transparent: true, opacity: 0.28 })
-    )
-    ring.rotation.x = Math.PI / 2
-    scene.add(ring)
+    const orbit = makeOrbitPath(b.body, sceneScale, sceneFrame, 0.02)
+    scene.add(orbit.group)
+    orbits.set(b.body, orbit)
   }
 
   // Planet meshes
@@ -677,53 +4172,16 @@ export function buildSolarPanel(panel: Panel) {
     planetMeshes.set(b.body, mesh)
   }
 
-  // Trail lines
+  // Trails over a sim-time span behind each planet
+  const trails = new Map<Body, SimTrail>()
   for (const b of bodies) {
-    const positions = new Float32Array(TRAIL_POINTS * 3)
-    const geom = new THREE.BufferGeometry()
-    geom.setAttribute('position', new THREE.BufferAttribute(positions, 3))
-    geom.setDrawRange(0, 0)
-
-    const mat = new THREE.LineBasicMaterial({
-      color: 0x90a4ae,
-      transparent: true,
-      opacity: 0.35,
-    })
-
-    const line = new THREE.Line(geom, mat)
-    scene.add(line)
-
-    trails.set(b.body, {
-      positions,
-      geom,
-      line,
-      index: 0,
-      count: 0,
-    })
-  }
-
-  function pushTrail(body: Body, pos: THREE.Vector3) {
-    const trail = trails.get(body)
-    if (!trail) return
-    const { positions, geom } = trail
-
-    const i = trail.index
-    positions[3 * i + 0] = pos.x
-    positions[3 * i + 1] = pos.y
-    positions[3 * i + 2] = pos.z
-
-    trail.index = (i + 1) % TRAIL_POINTS
-    trail.count = Math.min(TRAIL_POINTS, trail.count + 1)
-
-    geom.setDrawRange(0, trail.count)
-    geom.attributes.position.needsUpdate = true
+    const trail = makeSimTrail((d) => helioToEclipticVec(HelioVector(b.body, d)), sceneScale, sceneFrame, 0x90a4ae, 0.45)
+    scene.add(trail.line)
+    trails.set(b.body, trail)
   }
 
   // Moon (shown near Earth, with exaggerated distance)
-  const moon = new THREE.Mesh(
-    new THREE.SphereGeometry(0.015, 20, 20),
-    new THREE.MeshStandardMaterial({ color: 0xd6d6d6, roughness: 1, metalness: 0 })
-  )
+  const moon = new THREE.Mesh(new THREE.SphereGeometry(0.015, 20, 20), makeMoonMaterial())
   scene.add(moon)
 
   const overlay = panel.root.querySelector<HTMLElement>('.overlay')!
@@ -732,13 +4190,27 @@ export function buildSolarPanel(panel: Panel) {
   // Hover labels
   const raycaster = new THREE.Raycaster()
   const mouse = new THREE.Vector2()
-  const hoverTargets: Array<{ obj: THREE.Object3D; label: string }> = []
+  const hoverTargets: HoverTarget[] = []
 
   for (const b of bodies) {
     hoverTargets.push({ obj: planetMeshes.get(b.body)!, label: b.name })
   }
   hoverTargets.push({ obj: moon, label: 'Moon' })
 
+  const smallBodyLayer = makeSmallBodyLayer(opts.smallBodies ?? [], sceneScale, sceneFrame, 0.02)
+  scene.add(smallBodyLayer.group)
+  hoverTargets.push(...smallBodyLayer.hoverTargets)
+
+  const moonSystemLayer = makeMoonSystemLayer(
+    opts.planetMoons ?? [],
+    sceneScale,
+    sceneFrame,
+    new Map(bodies.map((b) => [b.body, { obj: planetMeshes.get(b.body)!, radius: () => b.radius }])),
+    0.012
+  )
+  scene.add(moonSystemLayer.group)
+  hoverTargets.push(...moonSystemLayer.hoverTargets)
+
   function onPointerMove(ev: PointerEvent) {
     const rect = panel.renderer.domElement.getBoundingClientRect()
     const x = ((ev.clientX - rect.left) / rect.width) * 2 - 1
@@ -747,15 +4219,13 @@ export function buildSolarPanel(panel: Panel) {
 
     raycaster.setFromCamera(mouse, panel.camera)
 
-    const intersects = raycaster.intersectObjects(hoverTargets.map((t) => t.obj), true)
-    if (intersects.length === 0) {
+    const found = pickHoverTarget(raycaster, hoverTargets)
+    if (!found) {
       tooltip.style.display = 'none'
       return
     }
 
-    const hit = intersects[0].object
-    const found = hoverTargets.find((t) => t.obj === hit || t.obj.children.includes(hit))
-    tooltip.textContent = found?.label ?? 'Object'
+    tooltip.textContent = found.label
     tooltip.style.display = 'block'
     tooltip.style.left = `${ev.clientX - rect.left + 12}px`
     tooltip.style.top = `${ev.clientY - rect.top + 12}px`
@@ -775,32 +4245,47 @@ export function buildSolarPanel(panel: Panel) {
   controls.target.set(0, 0, 0)
   controls.minDistance = 0.6
   controls.maxDistance = 40
+  camera.position.set(0, 7, 9)
+  camera.lookAt(0, 0, 0)
+
+  const cameraFocus = makeCameraFocus(panel)
+  bindFocusControls(panel, hoverTargets, cameraFocus)
 
   panel.onFrame = (t) => {
-    // Place planets (flatten to XZ plane for legibility) + record trails
+    // Place planets in the ecliptic frame + draw trails
+    const showOrbitMarkers = opts.getShowOrbitMarkers ? opts.getShowOrbitMarkers() : false
+    const trailSpan = opts.getTrailSpan ? opts.getTrailSpan() : '90d'
     let earthDistanceAU = 0
     for (const b of bodies) {
       const hv = HelioVector(b.body, t.sim) // AU
-      const p = helioToEclipticPlane(hv, AU)
+      const p = helioToEclipticVec(hv, AU)
       const mesh = planetMeshes.get(b.body)!
       mesh.position.copy(p)
+      orbits.get(b.body)!.update(t.sim, showOrbitMarkers)
       if (b.body === Body.Earth) earthDistanceAU = vectorLength(hv, AU)
 
-      pushTrail(b.body, mesh.position)
+      trails.get(b.body)!.update(t.sim, trailSpanMs(trailSpan, PlanetOrbitalPeriod(b.body)), mesh.position)
     }
 
+    smallBodyLayer.update(t.sim, opts.getShowSmallBodies ? opts.getShowSmallBodies() : true, trailSpan)
+    moonSystemLayer.update(t.sim, opts.getShowPlanetMoons ? opts.getShowPlanetMoons() : true)
+
     const earthMesh = planetMeshes.get(Body.Earth)!
 
     // Moon position: geocentric vector from Earth to Moon.
     // We exaggerate the distance so it's visible at AU scale.
     const moonVec = GeoVector(Body.Moon, t.sim, true) // AU from Earth center
-    const moonP = helioToEclipticPlane(moonVec, AU)
+    const moonP = helioToEclipticVec(moonVec, AU)
     const moonExaggeration = 60
     moon.position.copy(
       earthMesh.position
         .clone()
         .add(moonP.multiplyScalar(moonExaggeration))
     )
+    // The Sun sits at the origin, so sunlight arrives along -moon.position.
+    moon.material.uniforms.sunDirection.value.copy(moon.position).negate().normalize()
+    const moonPhase = moonPhaseInfo(t.sim)
+    cameraFocus.update()
 
     // Overlay
     const theta = Math.atan2(earthMesh.position.z, earthMesh.position.x)
@@ -812,11 +4297,9 @@ export function buildSolarPanel(panel: Panel) {
       `Earth–Sun distance: ${earthDistanceAU.toFixed(3)} AU`,
       `Earth orbit angle (approx): ${deg.toFixed(1)}°`,
       `Moon distance exaggerated: ×${moonExaggeration}`,
+      `Moon: ${moonPhase.name.toLowerCase()}, ${(moonPhase.illuminatedFraction * 100).toFixed(0)}% lit`,
     ])
   }
-
-  camera.position.set(0, 7, 9)
-  camera.lookAt(0, 0, 0)
 }
 
 export function buildUniversePanel(panel: Panel, getCosmicAgeGyr: () => number) {
@@ -876,20 +4359,27 @@ export function buildUniversePanel(panel: Panel, getCosmicAgeGyr: () => number)
   camera.position.set(0, 12, 16)
   camera.lookAt(0, 0, 0)
 
+  // Cosmic age slider defines age in Gyr. Scale factor/redshift come from the Planck 2018
+  // model, while the point cloud is illustrative.
+  const model = COSMOLOGY_PRESETS.planck2018.model
+  const scaleFactorAt = (ageGyr: number) => {
+    const epoch = solveCosmology(model, { ageGyr })
+    return 'a' in epoch ? epoch.a : 1
+  }
+  const aToday = scaleFactorAt(13.8)
+
   panel.onFrame = () => {
-    // Cosmic age slider defines age in Gyr. Scale factor/redshift use the
-    // analytic flat matter+lambda relation, while the point cloud is illustrative.
     const ageGyr = getCosmicAgeGyr()
-    const a = lcdmScaleFactor(ageGyr)
+    const a = scaleFactorAt(ageGyr)
     const z = 1 / a - 1
 
     // Use a compressed display scale so future expansion does not fly out of frame.
-    const displayA = Math.log1p(a) / Math.log1p(lcdmScaleFactor(13.8))
+    const displayA = Math.log1p(a) / Math.log1p(aToday)
     const scale = 0.35 + Math.min(displayA, 2.4) * 0.65
     galaxy.scale.set(scale, scale, scale)
 
     // Fade structures in over time
-    const opacity = 0.15 + 0.65 * Math.min(1, a / lcdmScaleFactor(13.8))
+    const opacity = 0.15 + 0.65 * Math.min(1, a / aToday)
     starsMaterial.opacity = opacity
 
     // Slow rotation in comoving coordinates
@@ -917,15 +4407,232 @@ export function buildUniversePanel(panel: Panel, getCosmicAgeGyr: () => number)
   }
 }
 
+function horizonToThreeVec(altitudeDeg: number, azimuthDeg: number, r = 1) {
+  // Local sky frame: +Y zenith, -Z north, +X east.
+  const alt = (altitudeDeg * Math.PI) / 180
+  const az = (azimuthDeg * Math.PI) / 180
+  return new THREE.Vector3(
+    r * Math.cos(alt) * Math.sin(az),
+    r * Math.sin(alt),
+    -r * Math.cos(alt) * Math.cos(az)
+  )
+}
+
+export function buildSkyPanel(
+  panel: Panel,
+  opts: {
+    getLat: () => number
+    getLon: () => number
+    getElevationM?: () => number
+    getDisplayTimeZone?: () => string
+    getLabel?: () => string
+    stars: StarSample[]
+    onExit?: () => void
+  }
+) {
+  const { scene, camera, controls } = panel
+  const SKY_RADIUS = 100
+
+  scene.background = new THREE.Color('#020309')
+  const nightSky = new THREE.Color('#020309')
+  const daySky = new THREE.Color('#4a7fc1')
+
+  // Stars live in J2000 equatorial coordinates; the group is rotated into the
+  // observer's horizon frame every frame.
+  const starGroup = new THREE.Group()
+  scene.add(starGroup)
+
+  const starPoints = makeStarPoints(opts.stars)
+  starPoints.scale.setScalar(SKY_RADIUS)
+  starGroup.add(starPoints)
+  const starMaterial = starPoints.material
+
+  // Ground: an opaque lower hemisphere just inside the sky hides everything below the horizon.
+  const ground = new THREE.Mesh(
+    new THREE.SphereGeometry(SKY_RADIUS * 0.98, 64, 32, 0, Math.PI * 2, Math.PI / 2, Math.PI / 2),
+    new THREE.MeshBasicMaterial({ color: 0x07090d, side: THREE.BackSide })
+  )
+  scene.add(ground)
+
+  // Altitude circles every 15 degrees and azimuth spokes every 30 degrees.
+  const gridPoints: THREE.Vector3[] = []
+  for (let alt = 0; alt < 90; alt += 15) {
+    for (let az = 0; az < 360; az += 3) {
+      gridPoints.push(horizonToThreeVec(alt, az, SKY_RADIUS * 0.97), horizonToThreeVec(alt, az + 3, SKY_RADIUS * 0.97))
+    }
+  }
+  for (let az = 0; az < 360; az += 30) {
+    for (let alt = 0; alt < 90; alt += 3) {
+      gridPoints.push(horizonToThreeVec(alt, az, SKY_RADIUS * 0.97), horizonToThreeVec(alt + 3, az, SKY_RADIUS * 0.97))
+    }
+  }
+  const grid = new THREE.LineSegments(
+    new THREE.BufferGeometry().setFromPoints(gridPoints),
+    new THREE.LineBasicMaterial({ color: 0x5b7aa8, transparent: true, opacity: 0.18, depthWrite: false })
+  )
+  scene.add(grid)
+
+  for (const [label, az] of [['N', 0], ['E', 90], ['S', 180], ['W', 270]] as const) {
+    const sprite = makeLabelSprite(label, label === 'N' ? 'rgba(255, 160, 140, 0.95)' : undefined, 4)
+    sprite.position.copy(horizonToThreeVec(2.5, az, SKY_RADIUS * 0.9))
+    scene.add(sprite)
+  }
+
+  // Sun, Moon and naked-eye planets, placed from refracted topocentric alt/az.
+  const sunSprite = makeGlowSprite('rgba(255, 244, 214, 1)', 'rgba(255, 204, 102, 0.2)', 1)
+  sunSprite.scale.setScalar(9)
+  scene.add(sunSprite)
+
+  const moonDisc = new THREE.Mesh(new THREE.SphereGeometry(1.2, 32, 32), makeMoonMaterial())
+  scene.add(moonDisc)
+
+  const skyBodies = [
+    { body: Body.Mercury, color: '#d0c8bc' },
+    { body: Body.Venus, color: '#fff4d6' },
+    { body: Body.Mars, color: '#ff9a7a' },
+    { body: Body.Jupiter, color: '#f3dfbf' },
+    { body: Body.Saturn, color: '#f0dca0' },
+    { body: Body.Uranus, color: '#b6ecf5' },
+    { body: Body.Neptune, color: '#9fb2ff' },
+  ].map(({ body, color }) => {
+    const group = new THREE.Group()
+    const dot = makeGlowSprite(color, 'rgba(255, 255, 255, 0)', 1, 64)
+    dot.scale.setScalar(1.6)
+    group.add(dot)
+    const label = makeLabelSprite(`${body}`, color, 1.6)
+    label.position.set(0, 1.8, 0)
+    group.add(label)
+    scene.add(group)
+    return { body, group }
+  })
+
+  const overlay = panel.root.querySelector<HTMLElement>('.overlay')!
+
+  const exitButton = document.createElement('button')
+  exitButton.type = 'button'
+  exitButton.className = 'panel-action'
+  exitButton.textContent = '← Back to cosmos'
+  exitButton.addEventListener('click', () => opts.onExit?.())
+  panel.root.appendChild(exitButton)
+
+  // Look around from the centre of the dome: the camera sits a hair away from the
+  // target, so orbiting turns the view instead of moving through the scene.
+  controls.target.set(0, 0, 0)
+  controls.enableZoom = false
+  controls.enablePan = false
+  controls.rotateSpeed = -0.32
+  controls.minPolarAngle = 0.02
+  controls.maxPolarAngle = Math.PI - 0.02
+  camera.fov = 70
+  camera.position.set(0, -0.0003, 0.01)
+  camera.updateProjectionMatrix()
+
+  panel.renderer.domElement.addEventListener(
+    'wheel',
+    (ev) => {
+      ev.preventDefault()
+      camera.fov = clamp(camera.fov * Math.exp(ev.deltaY * 0.001), 15, 110)
+      camera.updateProjectionMatrix()
+    },
+    { passive: false }
+  )
+
+  const rotation = new THREE.Matrix4()
+
+  panel.onFrame = (t) => {
+    const lat = opts.getLat()
+    const lon = opts.getLon()
+    const observer = new Observer(lat, lon, opts.getElevationM ? opts.getElevationM() : 0)
+
+    // astronomy-engine HOR is x = north, y = west, z = zenith; remap to the
+    // sky frame (east, zenith, south) while applying the EQJ -> HOR rotation.
+    const rot = Rotation_EQJ_HOR(t.sim, observer).rot
+    rotation.set(
+      -rot[0][1], -rot[1][1], -rot[2][1], 0,
+      rot[0][2], rot[1][2], rot[2][2], 0,
+      -rot[0][0], -rot[1][0], -rot[2][0], 0,
+      0, 0, 0, 1
+    )
+    starGroup.quaternion.setFromRotationMatrix(rotation)
+
+    const horizonOf = (body: Body) => {
+      const eq = Equator(body, t.sim, observer, true, true)
+      return Horizon(t.sim, observer, eq.ra, eq.dec, 'normal')
+    }
+
+    const sunHor = horizonOf(Body.Sun)
+    sunSprite.position.copy(horizonToThreeVec(sunHor.altitude, sunHor.azimuth, SKY_RADIUS * 0.95))
+    // Bodies sit inside the ground hemisphere, so hide them once they have set.
+    sunSprite.visible = sunHor.altitude > -3
+
+    const moonHor = horizonOf(Body.Moon)
+    moonDisc.position.copy(horizonToThreeVec(moonHor.altitude, moonHor.azimuth, SKY_RADIUS * 0.93))
+    moonDisc.visible = moonHor.altitude > -1
+    // The Sun is ~400 times farther than the Moon, so sunlight arrives along the Sun's direction.
+    moonDisc.material.uniforms.sunDirection.value.copy(horizonToThreeVec(sunHor.altitude, sunHor.azimuth))
+
+    for (const { body, group } of skyBodies) {
+      const hor = horizonOf(body)
+      group.position.copy(horizonToThreeVec(hor.altitude, hor.azimuth, SKY_RADIUS * 0.94))
+      group.visible = hor.altitude > -1
+    }
+
+    // Darkness ramps from 0 at sunset to 1 at the end of astronomical twilight.
+    const darkness = clamp(-sunHor.altitude / 18, 0, 1)
+    starMaterial.uniforms.limitingMag.value = -1.5 + darkness * 8
+    starMaterial.uniforms.pointScale.value = Math.min(devicePixelRatio, 1.5) * (70 / camera.fov)
+    ;(scene.background as THREE.Color).copy(daySky).lerp(nightSky, clamp(-sunHor.altitude / 12 + 0.5, 0, 1))
+
+    const label = opts.getLabel ? opts.getLabel() : 'Observer'
+    const displayZone = opts.getDisplayTimeZone ? opts.getDisplayTimeZone() : DEFAULT_TIME_ZONE
+    textOverlay(overlay, [
+      `<b>Local sky · ${escapeHtml(label)}</b>`,
+      `Sim time: ${formatTime(t.sim, displayZone)} (${displayZone})`,
+      `Sun alt/az: ${sunHor.altitude.toFixed(1)}° / ${sunHor.azimuth.toFixed(1)}°`,
+      `Moon alt/az: ${moonHor.altitude.toFixed(1)}° / ${moonHor.azimuth.toFixed(1)}°`,
+      `Naked-eye limit ≈ mag ${starMaterial.uniforms.limitingMag.value.toFixed(1)} · drag to look around, scroll to zoom`,
+    ])
+  }
+}
+
 async function buildCombinedPanel(
   panel: Panel,
   opts: {
     getLat: () => number
     getLon: () => number
+    getElevationM?: () => number
+    getObserverTimeZone?: () => string
+    getDisplayTimeZone?: () => string
     getLabel?: () => string
     getTextureOffsetDeg?: () => number
     getCosmicAgeGyr: () => number
-    galaxySamples: GalaxySample[]
+    getCosmology?: () => Cosmology
+    getCosmologyLabel?: () => string
+    getCosmicEpoch?: () => { ageGyr: number } | { z: number }
+    getHubbleFitOptions?: () => HubbleFitOptions
+    getShowOrbitMarkers?: () => boolean
+    getShowEclipses?: () => boolean
+    getShowSmallBodies?: () => boolean
+    getShowPlanetMoons?: () => boolean
+    getMoonSystemInset?: () => string
+    getShowSatellites?: () => boolean
+    getScaleMode?: () => ScaleModeName
+    getSizeExaggeration?: () => number
+    getFrame?: () => FrameName
+    getTrailSpan?: () => TrailSpan
+    getShowStars?: () => boolean
+    getShowConstellations?: () => boolean
+    getShowConstellationBoundaries?: () => boolean
+    getSkyGrid?: () => SkyGrid
+    onJumpToTime?: (date: Date) => void
+    onSelectLocation?: () => void
+    getGalaxyCatalog: () => GalaxyCatalog
+    smallBodies?: SmallBody[]
+    planetMoons?: PlanetMoon[]
+    satellites?: Satellite[]
+    stars?: StarSample[]
+    constellationFigures?: ConstellationFigure[]
+    constellationBoundaries?: ConstellationFigure[]
     getWeatherLines?: () => string[]
   }
 ) {
@@ -933,6 +4640,15 @@ async function buildCombinedPanel(
 
   scene.background = new THREE.Color('#020309')
 
+  // The real sky behind the planets, so each one sits in front of its actual constellation.
+  const celestialSphere = makeCelestialSphere(
+    opts.stars ?? [],
+    opts.constellationFigures ?? [],
+    opts.constellationBoundaries ?? [],
+    1000
+  )
+  scene.add(celestialSphere.group)
+
   const ambient = new THREE.AmbientLight(0x223344, 0.22)
   scene.add(ambient)
 
@@ -945,9 +4661,11 @@ async function buildCombinedPanel(
     'rgba(255, 204, 102, 0.12)',
     0.92
   )
-  sunGlow.scale.setScalar(0.92)
   scene.add(sunGlow)
 
+  const sun = new THREE.Mesh(new THREE.SphereGeometry(1, 48, 48), new THREE.MeshBasicMaterial({ color: 0xffcc66 }))
+  scene.add(sun)
+
   let motionMix = 1
   let targetMotionMix = 1
 
@@ -956,37 +4674,46 @@ async function buildCombinedPanel(
   backdropGroup.rotation.y = -0.28
   scene.add(backdropGroup)
 
-  // Universe backdrop: HyperLeda galaxy sample plotted as an observed Hubble flow.
-  const galaxySamples = opts.galaxySamples
+  // Universe backdrop: the galaxy catalog (HyperLeda unless the user loaded one) plotted as an
+  // observed Hubble flow. A new catalog from `getGalaxyCatalog` rebuilds it and the Hubble chart.
+  let galaxyCatalog = opts.getGalaxyCatalog()
+  let galaxySamples = galaxyCatalog.samples
   const galaxyGeom = new THREE.BufferGeometry()
-  const positions = new Float32Array(galaxySamples.length * 3)
-  const colors = new Float32Array(galaxySamples.length * 3)
+  let positions = new Float32Array(0)
 
-  const distScale = 0.11
-  const velScale = 0.00008
   const depthScale = 0.45
 
-  for (let i = 0; i < galaxySamples.length; i++) {
-    const sample = galaxySamples[i]
-    const x = sample.distanceMpc * distScale
-    const y = sample.velocityKms * velScale
-    const jitter = ((hashString(sample.name) % 1000) / 999 - 0.5) * depthScale
-
-    positions[3 * i + 0] = x
-    positions[3 * i + 1] = y
-    positions[3 * i + 2] = jitter
-
-    const density = clamp(sample.distanceMpc / 250, 0, 1)
-    const color = new THREE.Color()
-    color.setHSL(0.58 - density * 0.48, 0.72, 0.55 + (1 - density) * 0.12)
-    colors[3 * i + 0] = color.r
-    colors[3 * i + 1] = color.g
-    colors[3 * i + 2] = color.b
+  function layoutGalaxies() {
+    // Catalogs reaching past 250 Mpc are squeezed into the same span.
+    const reachMpc = galaxySamples.reduce((max, sample) => Math.max(max, sample.distanceMpc), 250)
+    const distScale = (0.11 * 250) / reachMpc
+    const velScale = (0.00008 * 250) / reachMpc
+    positions = new Float32Array(galaxySamples.length * 3)
+    const colors = new Float32Array(galaxySamples.length * 3)
+    for (let i = 0; i < galaxySamples.length; i++) {
+      const sample = galaxySamples[i]
+      const x = sample.distanceMpc * distScale
+      const y = sample.velocityKms * velScale
+      const jitter = ((hashString(sample.name) % 1000) / 999 - 0.5) * depthScale
+
+      positions[3 * i + 0] = x
+      positions[3 * i + 1] = y
+      positions[3 * i + 2] = jitter
+
+      const density = clamp(sample.distanceMpc / reachMpc, 0, 1)
+      const color = new THREE.Color()
+      color.setHSL(0.58 - density * 0.48, 0.72, 0.55 + (1 - density) * 0.12)
+      colors[3 * i + 0] = color.r
+      colors[3 * i + 1] = color.g
+      colors[3 * i + 2] = color.b
+    }
 
+    galaxyGeom.dispose()
+    galaxyGeom.setAttribute('position', new THREE.BufferAttribute(positions, 3))
+    galaxyGeom.setAttribute('color', new THREE.BufferAttribute(colors, 3))
+    galaxyGeom.computeBoundingSphere()
   }
-
-  galaxyGeom.setAttribute('position', new THREE.BufferAttribute(positions, 3))
-  galaxyGeom.setAttribute('color', new THREE.BufferAttribute(colors, 3))
+  layoutGalaxies()
   const galaxyMaterial = new THREE.PointsMaterial({
     color: 0xffffff,
     size: 0.03,
@@ -998,6 +4725,49 @@ async function buildCombinedPanel(
   const galaxy = new THREE.Points(galaxyGeom, galaxyMaterial)
   backdropGroup.add(galaxy)
 
+  // The selected galaxy, picked in the backdrop, the Hubble chart or the search box, is ringed in
+  // both. The marker is the camera's focus target; it becomes a hover target once first used.
+  let selectedGalaxy: GalaxySample | null = null
+  const galaxyMarker = new THREE.Mesh(
+    new THREE.SphereGeometry(0.06, 16, 12),
+    new THREE.MeshBasicMaterial({ color: 0xffffff, wireframe: true, transparent: true, opacity: 0.8 })
+  )
+  galaxyMarker.visible = false
+  galaxy.add(galaxyMarker)
+  const galaxyMarkerTarget: HoverTarget = { obj: galaxyMarker, label: '' }
+
+  function selectGalaxy(sample: GalaxySample, fly: boolean) {
+    selectedGalaxy = sample
+    galaxyMarker.position.fromArray(positions, 3 * galaxySamples.indexOf(sample))
+    galaxyMarker.visible = true
+    galaxyMarkerTarget.label = formatGalaxyLabel(sample)
+    if (!hoverTargets.includes(galaxyMarkerTarget)) hoverTargets.push(galaxyMarkerTarget)
+    if (fly) cameraFocus.focus(galaxyMarker, 0.15)
+    drawHubbleChart()
+    updateHubbleNote()
+  }
+
+  // Raycast against the points with a threshold of a few pixels at the far edge of the backdrop,
+  // then keep the hit nearest the cursor in angle.
+  const galaxyRaycaster = new THREE.Raycaster()
+  function pickGalaxy(ndc: THREE.Vector2) {
+    if (!galaxySamples.length) return undefined
+    const camera = panel.camera
+    const pxAngle = (2 * Math.tan((camera.fov * Math.PI) / 360)) / panel.renderer.domElement.clientHeight
+    const farthest = camera.position.distanceTo(backdropGroup.getWorldPosition(new THREE.Vector3())) + 30
+    galaxyRaycaster.params.Points.threshold = 6 * pxAngle * farthest
+    galaxyRaycaster.setFromCamera(ndc, camera)
+    // distanceToRay comes back in the points' local units.
+    const scale = galaxy.getWorldScale(new THREE.Vector3()).x
+    let best: { index: number; angle: number } | undefined
+    for (const hit of galaxyRaycaster.intersectObject(galaxy, false)) {
+      if (hit.index == null || hit.distanceToRay == null) continue
+      const angle = (hit.distanceToRay * scale) / hit.distance
+      if (angle <= 6 * pxAngle && (!best || angle < best.angle)) best = { index: hit.index, angle }
+    }
+    return best ? galaxySamples[best.index] : undefined
+  }
+
   const galaxyGrid = new THREE.GridHelper(40, 16, 0x1f3557, 0x102033)
   galaxyGrid.rotation.x = Math.PI / 2
   galaxyGrid.position.y = 0
@@ -1005,152 +4775,784 @@ async function buildCombinedPanel(
   ;(galaxyGrid.material as THREE.Material).opacity = 0.15
   backdropGroup.add(galaxyGrid)
 
-  // Solar system scale: 1 unit = 1 AU.
-  const AU = 1
-  const displayScale = 0.22
+  // Solar system layout comes from the scale mode. Planet geometry is built at the base
+  // `radius` below and each planet group is scaled to its drawn size every frame, so
+  // everything parented to Earth (marker, satellites, shadow track) scales with it.
+  const initialScaleMode = opts.getScaleMode ? opts.getScaleMode() : 'legible'
+  const sceneScale = makeAnimatedSceneScale(
+    initialScaleMode,
+    opts.getSizeExaggeration ? opts.getSizeExaggeration() : SCALE_MODES[initialScaleMode].defaultSize
+  )
+  const sceneFrame = makeSceneFrame(opts.getFrame ? opts.getFrame() : 'heliocentric')
   const earthRadius = 0.13
+  const moonBaseRadius = 0.015
   const bodies: Array<{
     body: Body
     name: string
     color: number
     radius: number
-    aAU: number
+    radiusKm: number // mean
   }> = [
-    { body: Body.Mercury, name: 'Mercury', color: 0xb0b0b0, radius: 0.035, aAU: 0.387 },
-    { body: Body.Venus, name: 'Venus', color: 0xe7c27c, radius: 0.05, aAU: 0.723 },
-    { body: Body.Earth, name: 'Earth', color: 0x5aa9ff, radius: earthRadius, aAU: 1.0 },
-    { body: Body.Mars, name: 'Mars', color: 0xff7760, radius: 0.04, aAU: 1.524 },
-    { body: Body.Jupiter, name: 'Jupiter', color: 0xd9b38c, radius: 0.09, aAU: 5.203 },
-    { body: Body.Saturn, name: 'Saturn', color: 0xe8d39a, radius: 0.08, aAU: 9.537 },
-    { body: Body.Uranus, name: 'Uranus', color: 0x9ad8e8, radius: 0.07, aAU: 19.191 },
-    { body: Body.Neptune, name: 'Neptune', color: 0x6f89ff, radius: 0.07, aAU: 30.07 },
+    { body: Body.Mercury, name: 'Mercury', color: 0xb0b0b0, radius: 0.035, radiusKm: 2439.7 },
+    { body: Body.Venus, name: 'Venus', color: 0xe7c27c, radius: 0.05, radiusKm: 6051.8 },
+    { body: Body.Earth, name: 'Earth', color: 0x5aa9ff, radius: earthRadius, radiusKm: EARTH_RADIUS_KM },
+    { body: Body.Mars, name: 'Mars', color: 0xff7760, radius: 0.04, radiusKm: 3389.5 },
+    { body: Body.Jupiter, name: 'Jupiter', color: 0xd9b38c, radius: 0.09, radiusKm: 69911 },
+    { body: Body.Saturn, name: 'Saturn', color: 0xe8d39a, radius: 0.08, radiusKm: 58232 },
+    { body: Body.Uranus, name: 'Uranus', color: 0x9ad8e8, radius: 0.07, radiusKm: 25362 },
+    { body: Body.Neptune, name: 'Neptune', color: 0x6f89ff, radius: 0.07, radiusKm: 24622 },
   ]
 
-  type Trail = {
-    positions: Float32Array
-    geom: THREE.BufferGeometry
-    line: THREE.Line<THREE.BufferGeometry, THREE.LineBasicMaterial>
-    index: number
-    count: number
-  }
-
-  const TRAIL_POINTS = 512
-  const trails = new Map<Body, Trail>()
+  const trails = new Map<Body, SimTrail>()
   const planetGroups = new Map<Body, THREE.Group>()
   const planetMeshes = new Map<Body, THREE.Mesh>()
-  const hoverTargets: Array<{ obj: THREE.Object3D; label: string }> = []
+  const hoverTargets: HoverTarget[] = []
+  const orbits = new Map<Body, OrbitPath>()
+  hoverTargets.push({ obj: sun, label: 'Sun', observed: { name: 'Sun', kind: 'Star', body: Body.Sun, radiusKm: SUN_RADIUS_KM } })
+
+  // Invisible hit spheres kept a fixed fraction of the view wide, so bodies drawn at true
+  // scale can still be hovered and clicked.
+  const pickSpheres: THREE.Mesh[] = []
+  const addPickSphere = (obj: THREE.Object3D) => {
+    const hit = new THREE.Mesh(new THREE.SphereGeometry(1, 8, 8), new THREE.MeshBasicMaterial({ visible: false }))
+    obj.add(hit)
+    pickSpheres.push(hit)
+  }
+  addPickSphere(sun)
+
+  for (const b of bodies) {
+    const orbit = makeOrbitPath(b.body, sceneScale, sceneFrame, 0.012)
+    scene.add(orbit.group)
+    orbits.set(b.body, orbit)
+  }
+
+  const [earthTex, earthNightTex] = await Promise.all([
+    loadEarthTexture('earth_day_4k.jpg'),
+    loadEarthTexture('earth_night_4k.jpg'),
+  ])
+  const earthMaterial = makeEarthMaterial(earthTex, earthNightTex)
+  const atmosphereMaterial = makeAtmosphereMaterial()
+  const planetTextures = new Map(
+    await Promise.all(
+      bodies
+        .filter((b) => PLANET_LOOKS[b.body])
+        .map(async (b) => [b.body, await loadPlanetTexture(PLANET_LOOKS[b.body]!)] as const)
+    )
+  )
+  // Per-planet materials whose lighting follows the Sun; the sphere is as wide as the equator.
+  const planetSurfaces = new Map<
+    Body,
+    { material: ReturnType<typeof makePlanetMaterial>; rings?: ReturnType<typeof makeRingMaterial>; equatorRadius: number }
+  >()
 
   for (const b of bodies) {
-    const ring = new THREE.Mesh(
-      new THREE.RingGeometry(b.aAU * AU * displayScale - 0.006, b.aAU * AU * displayScale + 0.006, 192),
+    const group = new THREE.Group()
+    if (b.body === Body.Earth) {
+      group.rotation.x = -OBLIQUITY_RAD
+    }
+    scene.add(group)
+    planetGroups.set(b.body, group)
+
+    let mesh: THREE.Mesh
+    if (b.body === Body.Earth) {
+      mesh = new THREE.Mesh(new THREE.SphereGeometry(b.radius, 96, 96), earthMaterial)
+
+      const atmosphere = new THREE.Mesh(new THREE.SphereGeometry(b.radius * 1.03, 64, 64), atmosphereMaterial)
+      group.add(atmosphere)
+
+      const marker = new THREE.Mesh(
+        new THREE.SphereGeometry(0.02, 16, 16),
+        new THREE.MeshBasicMaterial({ color: 0xffcc33 })
+      )
+      marker.name = 'earth-marker'
+      mesh.add(marker)
+
+      // Moon's shadow track during solar eclipses, in Earth-fixed coordinates.
+      const shadowTrack = new THREE.Line(
+        new THREE.BufferGeometry(),
+        new THREE.LineBasicMaterial({ color: 0x111111, transparent: true, opacity: 0.85 })
+      )
+      shadowTrack.name = 'moon-shadow-track'
+      shadowTrack.visible = false
+      mesh.add(shadowTrack)
+
+      const shadowSpot = new THREE.Mesh(
+        new THREE.SphereGeometry(0.012, 16, 16),
+        new THREE.MeshBasicMaterial({ color: 0x000000, transparent: true, opacity: 0.8 })
+      )
+      shadowSpot.name = 'moon-shadow-spot'
+      shadowSpot.visible = false
+      mesh.add(shadowSpot)
+    } else {
+      const look = PLANET_LOOKS[b.body]!
+      const equatorRadius = (b.radius * look.equatorialKm) / b.radiusKm
+      const ringMap = look.rings ? makeRingTexture(look.rings) : null
+      const material = makePlanetMaterial(planetTextures.get(b.body)!, ringMap)
+      mesh = new THREE.Mesh(new THREE.SphereGeometry(equatorRadius, 64, 48).scale(1, 1 - look.flattening, 1), material)
+
+      let rings: ReturnType<typeof makeRingMaterial> | undefined
+      if (look.rings && ringMap) {
+        const inner = look.rings[0].fromKm / look.equatorialKm
+        const outer = look.rings[look.rings.length - 1].toKm / look.equatorialKm
+        material.uniforms.ringInner.value = inner
+        material.uniforms.ringOuter.value = outer
+        rings = makeRingMaterial(ringMap, inner * equatorRadius, outer * equatorRadius)
+        const ringMesh = new THREE.Mesh(
+          new THREE.RingGeometry(inner * equatorRadius, outer * equatorRadius, 256, 1).rotateX(-Math.PI / 2),
+          rings
+        )
+        mesh.add(ringMesh)
+      }
+      planetSurfaces.set(b.body, { material, rings, equatorRadius })
+    }
+
+    group.add(mesh)
+    planetMeshes.set(b.body, mesh)
+    hoverTargets.push({
+      obj: mesh,
+      label: b.name,
+      // Earth has its own card.
+      observed: b.body === Body.Earth ? undefined : { name: b.name, kind: 'Planet', body: b.body, radiusKm: b.radiusKm },
+    })
+    addPickSphere(mesh)
+    addTrail(b.body)
+  }
+  // The Sun only moves outside the heliocentric and co-rotating frames: its wobble about the
+  // barycentre, or its yearly circle around Earth.
+  addTrail(Body.Sun, 0xffcc66)
+
+  function addTrail(body: Body, color = 0x90a4ae) {
+    const helioAt = body === Body.Sun ? () => new THREE.Vector3() : (d: Date) => helioToEclipticVec(HelioVector(body, d))
+    const trail = makeSimTrail(helioAt, sceneScale, sceneFrame, color, 0.45)
+    scene.add(trail.line)
+    trails.set(body, trail)
+  }
+
+  // Moon shown near Earth; its height above Earth is exaggerated in the legible and log modes.
+  const moon = new THREE.Mesh(new THREE.SphereGeometry(moonBaseRadius, 20, 20), makeMoonMaterial())
+  scene.add(moon)
+  hoverTargets.push({ obj: moon, label: 'Moon', observed: { name: 'Moon', kind: "Earth's moon", body: Body.Moon, radiusKm: MOON_RADIUS_KM } })
+  addPickSphere(moon)
+
+  // Constant-size dots mark where the Sun, planets and Moon are, whatever size they are drawn at.
+  const dotObjects = [sun, ...bodies.map((b) => planetGroups.get(b.body)!), moon]
+  const dotPositions = new Float32Array(dotObjects.length * 3)
+  const dotColors = new Float32Array(
+    [0xffcc66, ...bodies.map((b) => b.color), 0xd8d2c8].flatMap((hex) => new THREE.Color(hex).toArray())
+  )
+  const dotGeom = new THREE.BufferGeometry()
+  dotGeom.setAttribute('position', new THREE.BufferAttribute(dotPositions, 3))
+  dotGeom.setAttribute('color', new THREE.BufferAttribute(dotColors, 3))
+  const positionDots = new THREE.Points(
+    dotGeom,
+    new THREE.PointsMaterial({ size: 4, sizeAttenuation: false, vertexColors: true, transparent: true, opacity: 0.9 })
+  )
+  positionDots.frustumCulled = false
+  scene.add(positionDots)
+
+  const smallBodyLayer = makeSmallBodyLayer(opts.smallBodies ?? [], sceneScale, sceneFrame, 0.012)
+  scene.add(smallBodyLayer.group)
+  hoverTargets.push(...smallBodyLayer.hoverTargets)
+
+  const planetMoons = opts.planetMoons ?? []
+  const moonSystemLayer = makeMoonSystemLayer(
+    planetMoons,
+    sceneScale,
+    sceneFrame,
+    new Map(
+      bodies.map((b) => {
+        const group = planetGroups.get(b.body)!
+        const equatorRadius = planetSurfaces.get(b.body)?.equatorRadius ?? b.radius
+        return [b.body, { obj: group, radius: () => equatorRadius * group.scale.x }]
+      })
+    ),
+    0.01
+  )
+  scene.add(moonSystemLayer.group)
+  hoverTargets.push(...moonSystemLayer.hoverTargets)
+
+  // Satellites orbit in the tilted, non-rotating Earth group; ground tracks turn with the globe.
+  const satellites = opts.satellites ?? []
+  const satelliteLayer = makeSatelliteLayer(satellites, earthRadius)
+  planetGroups.get(Body.Earth)!.add(satelliteLayer.group)
+  planetMeshes.get(Body.Earth)!.add(satelliteLayer.groundTracks)
+  hoverTargets.push(...satelliteLayer.hoverTargets)
+  const iss = satellites.find((sat) => sat.kind === 'station' && /\bISS\b|ZARYA/i.test(sat.name))
+
+  // Earth's shadow, modelled in Earth radii along the anti-solar axis and stretched
+  // each frame so the Moon's displayed distance lands at its true place in the cone.
+  const SHADOW_LENGTH_RE = 90
+  const nominalSunRE = AU_KM / EARTH_RADIUS_KM
+  const umbraEndRE = 1.02 * (1 - (SHADOW_LENGTH_RE * (SUN_RADIUS_KM / EARTH_RADIUS_KM - 1)) / nominalSunRE)
+  const penumbraEndRE = 1.02 * (1 + (SHADOW_LENGTH_RE * (SUN_RADIUS_KM / EARTH_RADIUS_KM + 1)) / nominalSunRE)
+  const makeShadowCone = (endRadius: number, color: number, opacity: number) => {
+    const geom = new THREE.CylinderGeometry(endRadius, 1.02, SHADOW_LENGTH_RE, 48, 1, true)
+    geom.translate(0, SHADOW_LENGTH_RE / 2, 0)
+    return new THREE.Mesh(
+      geom,
       new THREE.MeshBasicMaterial({
-        color: 0x29405f,
-        side: THREE.DoubleSide,
+        color,
         transparent: true,
-        opacity: 0.28,
+        opacity,
+        side: THREE.DoubleSide,
+        depthWrite: false,
       })
     )
-    ring.rotation.x = Math.PI / 2
-    scene.add(ring)
   }
+  const earthShadow = new THREE.Group()
+  earthShadow.add(makeShadowCone(umbraEndRE, 0x7a2a18, 0.32))
+  earthShadow.add(makeShadowCone(penumbraEndRE, 0x3a4f7a, 0.12))
+  earthShadow.visible = false
+  scene.add(earthShadow)
+
+  const overlay = panel.root.querySelector<HTMLElement>('.overlay')!
+  const tooltip = panel.root.querySelector<HTMLElement>('.tooltip')!
+
+  const moonInset = document.createElement('div')
+  moonInset.className = 'moon-inset'
+  moonInset.innerHTML = `
+    <div class="moon-inset-title">Moon true scale</div>
+    <canvas class="moon-inset-canvas" width="460" height="140"></canvas>
+    <div class="moon-inset-note">Earth-Moon distance rendered at actual scale, using the current geocentric vector. Phase disc drawn north up.</div>
+  `
+  panel.root.appendChild(moonInset)
+  const moonInsetCanvas = moonInset.querySelector<HTMLCanvasElement>('.moon-inset-canvas')!
+  const moonInsetCtx = moonInsetCanvas.getContext('2d')
+  if (!moonInsetCtx) {
+    throw new Error('Moon inset canvas unavailable')
+  }
+
+  const moonSystemInset = document.createElement('div')
+  moonSystemInset.className = 'moon-inset moon-system-inset'
+  moonSystemInset.innerHTML = `
+    <div class="moon-inset-title">Moon system true scale</div>
+    <canvas class="moon-inset-canvas" width="460" height="160"></canvas>
+    <div class="moon-inset-note">Sky-plane view from Earth. Transiting moons cross the disc, occulted ones hide behind it, eclipsed ones dim.</div>
+  `
+  panel.root.appendChild(moonSystemInset)
+  const moonSystemCanvas = moonSystemInset.querySelector<HTMLCanvasElement>('.moon-inset-canvas')!
+  const moonSystemCtx = moonSystemCanvas.getContext('2d')
+  if (!moonSystemCtx) {
+    throw new Error('Moon system inset canvas unavailable')
+  }
+
+  const scaleLegend = document.createElement('div')
+  scaleLegend.className = 'scale-legend'
+  scaleLegend.innerHTML = `
+    <div class="scale-legend-title">Scale</div>
+    <div class="scale-bar"></div>
+    <div class="scale-legend-lines"></div>
+  `
+  panel.root.appendChild(scaleLegend)
+  const scaleBar = scaleLegend.querySelector<HTMLDivElement>('.scale-bar')!
+  const scaleLegendLines = scaleLegend.querySelector<HTMLDivElement>('.scale-legend-lines')!
+
+  // Cards pinned by clicking a body, up to four, oldest dropped first.
+  const bodyCards = document.createElement('div')
+  bodyCards.className = 'body-cards'
+  panel.root.appendChild(bodyCards)
+  type BodyCard = { observed: ObservedBody; root: HTMLElement; fields: Record<string, HTMLElement> }
+  const pinnedCards: BodyCard[] = []
+
+  function pinBodyCard(observed: ObservedBody) {
+    if (pinnedCards.some((card) => card.observed === observed)) return
+    if (pinnedCards.length >= 4) unpinBodyCard(pinnedCards[0])
+    const root = document.createElement('section')
+    root.className = 'info-card body-card'
+    root.innerHTML = `
+      <button class="body-card-close" type="button" aria-label="Unpin ${escapeHtml(observed.name)}">×</button>
+      <p class="card-kicker">${escapeHtml(observed.kind)}</p>
+      <h2>${escapeHtml(observed.name)}</h2>
+      <div class="card-lines">
+        <div>Distance: <span data-field="distance"></span></div>
+        <div>Light time: <span data-field="light-time"></span></div>
+        <div>RA/Dec: <span data-field="radec"></span></div>
+        <div>Alt/az: <span data-field="altaz"></span></div>
+        <div>Constellation: <span data-field="constellation"></span></div>
+        <div>Magnitude: <span data-field="magnitude"></span></div>
+        <div>Phase: <span data-field="phase"></span></div>
+        <div>Elongation: <span data-field="elongation"></span></div>
+        <div>Angular diameter: <span data-field="angular-diameter"></span></div>
+      </div>
+    `
+    const fields: BodyCard['fields'] = {}
+    root.querySelectorAll<HTMLElement>('[data-field]').forEach((el) => {
+      fields[el.dataset.field!] = el
+    })
+    const card = { observed, root, fields }
+    root.querySelector('.body-card-close')!.addEventListener('click', () => unpinBodyCard(card))
+    bodyCards.appendChild(root)
+    pinnedCards.push(card)
+  }
+
+  function unpinBodyCard(card: BodyCard) {
+    card.root.remove()
+    pinnedCards.splice(pinnedCards.indexOf(card), 1)
+  }
+
+  function updateBodyCards(sim: Date, observer: Observer) {
+    for (const { observed, fields } of pinnedCards) {
+      const o = observeBody(observed, sim, observer)
+      const fromEarth = o.geoAU < 0.01 ? `${Math.round(o.geoAU * AU_KM).toLocaleString('en-US')} km` : `${o.geoAU.toFixed(4)} AU`
+      fields.distance.textContent =
+        o.helioAU == null ? `${fromEarth} from Earth` : `${o.helioAU.toFixed(4)} AU from Sun · ${fromEarth} from Earth`
+      fields['light-time'].textContent = formatLightTime(o.lightTimeSec)
+      fields.radec.textContent = `${formatHms(o.raHours)} / ${o.decDeg >= 0 ? '+' : '−'}${Math.abs(o.decDeg).toFixed(2)}° (of date)`
+      fields.altaz.textContent = `${o.altDeg.toFixed(1)}° / ${o.azDeg.toFixed(1)}° ${compassPoint(o.azDeg)}, ${o.altDeg > 0 ? 'above' : 'below'} the horizon`
+      fields.constellation.textContent = o.constellation
+      fields.magnitude.textContent = o.magnitude == null ? '—' : o.magnitude.toFixed(2)
+      fields.phase.textContent =
+        o.phaseFraction == null || o.phaseAngleDeg == null
+          ? '—'
+          : `${(o.phaseFraction * 100).toFixed(1)}% lit, phase angle ${o.phaseAngleDeg.toFixed(1)}°`
+      fields.elongation.textContent = o.elongationDeg == null ? '—' : `${o.elongationDeg.toFixed(1)}° from the Sun`
+      fields['angular-diameter'].textContent = o.angularDiameterArcsec == null ? '—' : formatAngularSize(o.angularDiameterArcsec)
+    }
+  }
+
+  const hubbleStrip = document.createElement('div')
+  hubbleStrip.className = 'hubble-strip'
+  hubbleStrip.innerHTML = `
+    <div class="hubble-strip-title"></div>
+    <div class="hubble-strip-head">
+      <div class="galaxy-search">
+        <input type="search" placeholder="Find a galaxy: NGC 7814, UGC 12914…" aria-label="Find a galaxy" />
+        <div class="galaxy-search-results"></div>
+      </div>
+      <div class="hubble-strip-tabs">
+        <button type="button" data-mode="velocity" class="is-active">velocity</button>
+        <button type="button" data-mode="residuals">residuals</button>
+      </div>
+    </div>
+    <div class="hubble-strip-chart"></div>
+    <div class="hubble-strip-note"></div>
+  `
+  panel.root.appendChild(hubbleStrip)
+  const hubbleStripChart = hubbleStrip.querySelector<HTMLDivElement>('.hubble-strip-chart')!
+  const hubbleStripTitle = hubbleStrip.querySelector<HTMLDivElement>('.hubble-strip-title')!
+  hubbleStripTitle.textContent = `Hubble flow / ${galaxyCatalog.label}`
+  const hubbleStripNote = hubbleStrip.querySelector<HTMLDivElement>('.hubble-strip-note')!
+  const hubbleTabs = [...hubbleStrip.querySelectorAll<HTMLButtonElement>('.hubble-strip-tabs button')]
+  const galaxySearchInput = hubbleStrip.querySelector<HTMLInputElement>('.galaxy-search input')!
+  const galaxySearchResults = hubbleStrip.querySelector<HTMLDivElement>('.galaxy-search-results')!
+
+  // The bootstrap takes a few hundred milliseconds, so refits wait for the options to settle.
+  const hubbleFitOptions = () => (opts.getHubbleFitOptions ? opts.getHubbleFitOptions() : DEFAULT_HUBBLE_FIT)
+  let hubbleFit = fitHubbleSample(galaxySamples, hubbleFitOptions())
+  let hubbleFitKey = JSON.stringify(hubbleFit.options)
+  let hubbleRefitTimer = 0
+  let hubbleMode: HubbleChartMode = 'velocity'
+  const defaultHubbleViews = () => ({
+    velocity: defaultHubbleChartView(galaxySamples, hubbleFit, 'velocity'),
+    residuals: defaultHubbleChartView(galaxySamples, hubbleFit, 'residuals'),
+  })
+  let hubbleViews = defaultHubbleViews()
+  let hubblePoints: HubbleChartPoint[] = []
+  // The Universe card's model is drawn over the data, next to the Planck and SH0ES slopes.
+  const hubbleModel = () => ({
+    model: opts.getCosmology ? opts.getCosmology() : COSMOLOGY_PRESETS.planck2018.model,
+    label: opts.getCosmologyLabel ? opts.getCosmologyLabel() : 'Planck 2018',
+  })
+  let hubbleModelKey = JSON.stringify(hubbleModel())
+  let hubbleRelation = modelHubbleRelation(hubbleModel().model)
+
+  function hubbleCurves(): HubbleChartCurve[] {
+    return [
+      { label: `model: ${hubbleModel().label}`, color: 'rgb(180 240 150)', velocityAt: hubbleRelation },
+      ...H0_REFERENCES.map((reference) => ({
+        label: `${reference.label} ${reference.h0}`,
+        color: reference.color,
+        dashed: true,
+        velocityAt: (distanceMpc: number) => reference.h0 * distanceMpc,
+      })),
+    ]
+  }
+
+  function drawHubbleChart() {
+    const chart = buildHubbleChartSvg(
+      galaxySamples,
+      hubbleFit,
+      hubbleViews[hubbleMode],
+      hubbleMode,
+      hubbleCurves(),
+      selectedGalaxy
+    )
+    hubbleStripChart.innerHTML = chart.svg
+    hubblePoints = chart.points
+  }
+
+  function updateHubbleNote() {
+    const { minDistanceMpc, maxDistanceMpc, throughOrigin, rejection } = hubbleFit.options
+    const range = `${+minDistanceMpc.toFixed(1)}–${+maxDistanceMpc.toFixed(1)} Mpc`
+    const weight = selectedGalaxy ? hubbleFit.weights.get(selectedGalaxy) : undefined
+    const selected = selectedGalaxy
+      ? `Selected ${formatGalaxyLabel(selectedGalaxy)}${weight == null ? ', outside the fit window' : weight === 0 ? ', rejected' : ''}. `
+      : ''
+    if (!Number.isFinite(hubbleFit.slope)) {
+      hubbleStripNote.textContent = `${selected}Too few galaxies in ${range} to fit.`
+      return
+    }
+    const rejected = hubbleFit.rejectedCount ? `, ${hubbleFit.rejectedCount} rejected` : ''
+    hubbleStripNote.textContent =
+      selected +
+      `${range}, ${throughOrigin ? 'through the origin' : 'with intercept'}, ${HUBBLE_REJECTIONS[rejection]}: ` +
+      `${hubbleFit.sampleCount} galaxies${rejected}, scatter ${hubbleFit.scatterKms.toFixed(0)} km/s. ` +
+      `Band: 68% bootstrap (${hubbleFit.bootstrapCount} resamples). Scroll to zoom, drag to pan, double-click to reset.`
+  }
+
+  function updateHubbleChart() {
+    const nextModelKey = JSON.stringify(hubbleModel())
+    if (nextModelKey !== hubbleModelKey) {
+      hubbleModelKey = nextModelKey
+      hubbleRelation = modelHubbleRelation(hubbleModel().model)
+      drawHubbleChart()
+    }
+
+    const options = hubbleFitOptions()
+    const key = JSON.stringify(options)
+    if (key === hubbleFitKey) return
+    hubbleFitKey = key
+    window.clearTimeout(hubbleRefitTimer)
+    hubbleRefitTimer = window.setTimeout(() => {
+      hubbleFit = fitHubbleSample(galaxySamples, options)
+      // Residuals are rescaled to the new scatter; the distance range stays where the user left it.
+      const { xMin, xMax } = hubbleViews.residuals
+      hubbleViews.residuals = { ...defaultHubbleChartView(galaxySamples, hubbleFit, 'residuals'), xMin, xMax }
+      drawHubbleChart()
+      updateHubbleNote()
+    }, 300)
+  }
+
+  // Chart coordinates in viewBox units and in data units (Mpc, km/s).
+  function hubbleChartCoords(ev: MouseEvent) {
+    const rect = hubbleStripChart.querySelector('svg')!.getBoundingClientRect()
+    const { width, height, padL, padR, padT, padB } = HUBBLE_CHART
+    const x = ((ev.clientX - rect.left) / rect.width) * width
+    const y = ((ev.clientY - rect.top) / rect.height) * height
+    const view = hubbleViews[hubbleMode]
+    const [plotW, plotH] = [width - padL - padR, height - padT - padB]
+    return {
+      x,
+      y,
+      d: view.xMin + ((x - padL) / plotW) * (view.xMax - view.xMin),
+      v: view.yMin + ((height - padB - y) / plotH) * (view.yMax - view.yMin),
+      // Data units per screen pixel, for dragging.
+      dPerPx: ((view.xMax - view.xMin) / plotW) * (width / rect.width),
+      vPerPx: ((view.yMax - view.yMin) / plotH) * (height / rect.height),
+    }
+  }
+
+  // Both plots share the distance axis.
+  function setHubbleView(view: HubbleChartView) {
+    hubbleViews[hubbleMode] = view
+    const other = hubbleMode === 'velocity' ? 'residuals' : 'velocity'
+    hubbleViews[other] = { ...hubbleViews[other], xMin: view.xMin, xMax: view.xMax }
+    drawHubbleChart()
+  }
+
+  hubbleStripChart.addEventListener(
+    'wheel',
+    (ev) => {
+      if (!galaxySamples.length) return
+      ev.preventDefault()
+      const at = hubbleChartCoords(ev)
+      const k = Math.exp(ev.deltaY * 0.0015)
+      const view = hubbleViews[hubbleMode]
+      // Scales one axis about the cursor, holding its span inside the zoom limits.
+      const zoom = (min: number, max: number, center: number, minSpan: number, maxSpan: number) => {
+        const f = clamp((max - min) * k, minSpan, maxSpan) / (max - min)
+        return [center + (min - center) * f, center + (max - center) * f]
+      }
+      const [xMin, xMax] = zoom(view.xMin, view.xMax, at.d, HUBBLE_ZOOM.minSpanMpc, HUBBLE_ZOOM.maxSpanMpc)
+      const [yMin, yMax] = zoom(view.yMin, view.yMax, at.v, HUBBLE_ZOOM.minSpanKms, HUBBLE_ZOOM.maxSpanKms)
+      setHubbleView({ xMin, xMax, yMin, yMax })
+    },
+    { passive: false }
+  )
+
+  let hubbleDrag: { clientX: number; clientY: number; view: HubbleChartView } | null = null
+  hubbleStripChart.addEventListener('pointerdown', (ev) => {
+    hubbleDrag = { clientX: ev.clientX, clientY: ev.clientY, view: hubbleViews[hubbleMode] }
+    hubbleStripChart.setPointerCapture(ev.pointerId)
+    hubbleStripChart.classList.add('is-dragging')
+    tooltip.style.display = 'none'
+  })
+  const endHubbleDrag = () => {
+    hubbleDrag = null
+    hubbleStripChart.classList.remove('is-dragging')
+  }
+  function hubblePointAt(at: { x: number; y: number }) {
+    let nearest: HubbleChartPoint | undefined
+    let nearestDist = 6
+    for (const point of hubblePoints) {
+      const dist = Math.hypot(point.x - at.x, point.y - at.y)
+      if (dist < nearestDist) [nearest, nearestDist] = [point, dist]
+    }
+    return nearest
+  }
+  // A click that did not drag selects the galaxy under it.
+  hubbleStripChart.addEventListener('pointerup', (ev) => {
+    const clicked = hubbleDrag && Math.hypot(ev.clientX - hubbleDrag.clientX, ev.clientY - hubbleDrag.clientY) <= 4
+    endHubbleDrag()
+    const point = clicked ? hubblePointAt(hubbleChartCoords(ev)) : undefined
+    if (point) selectGalaxy(point.sample, true)
+  })
+  hubbleStripChart.addEventListener('pointercancel', endHubbleDrag)
+  hubbleStripChart.addEventListener('pointermove', (ev) => {
+    if (!galaxySamples.length) return
+    const at = hubbleChartCoords(ev)
+    if (hubbleDrag) {
+      const dd = (ev.clientX - hubbleDrag.clientX) * at.dPerPx
+      const dv = (ev.clientY - hubbleDrag.clientY) * at.vPerPx
+      const { xMin, xMax, yMin, yMax } = hubbleDrag.view
+      setHubbleView({ xMin: xMin - dd, xMax: xMax - dd, yMin: yMin + dv, yMax: yMax + dv })
+      return
+    }
+
+    const nearest = hubblePointAt(at)
+    if (!nearest) {
+      tooltip.style.display = 'none'
+      return
+    }
+    const { sample, residualKms } = nearest
+    const weight = hubbleFit.weights.get(sample)
+    const status =
+      weight == null ? 'outside the fit window' : weight === 0 ? 'rejected' : weight < 1 ? `weight ${weight.toFixed(2)}` : ''
+    const residual = Number.isFinite(residualKms) ? ` · residual ${residualKms >= 0 ? '+' : ''}${residualKms.toFixed(0)} km/s` : ''
+    tooltip.textContent = `${formatGalaxyLabel(sample)}${residual}${status ? ` · ${status}` : ''}`
+    const rect = panel.root.getBoundingClientRect()
+    tooltip.style.display = 'block'
+    tooltip.style.left = `${ev.clientX - rect.left + 12}px`
+    tooltip.style.top = `${ev.clientY - rect.top + 12}px`
+  })
+  hubbleStripChart.addEventListener('pointerleave', () => {
+    tooltip.style.display = 'none'
+  })
+  hubbleStripChart.addEventListener('dblclick', () => {
+    hubbleViews = defaultHubbleViews()
+    drawHubbleChart()
+  })
+  for (const tab of hubbleTabs) {
+    tab.addEventListener('click', () => {
+      hubbleMode = tab.dataset.mode as HubbleChartMode
+      hubbleTabs.forEach((other) => other.classList.toggle('is-active', other === tab))
+      drawHubbleChart()
+    })
+  }
+
+  let galaxySearchKeys = galaxySamples.map((sample) => galaxySearchKey(sample.name))
+  let galaxyMatches: GalaxySample[] = []
+  function renderGalaxySearch() {
+    const query = galaxySearchInput.value.trim()
+    galaxyMatches = searchGalaxies(galaxySamples, galaxySearchKeys, query)
+    const rows = galaxyMatches
+      .map(
+        (sample, i) => `
+          <button type="button" data-index="${i}">
+            <span>${escapeHtml(sample.name)}</span>
+            <span class="galaxy-search-meta">${sample.distanceMpc.toFixed(1)} Mpc · ${sample.velocityKms.toFixed(0)} km/s</span>
+          </button>
+        `
+      )
+      .join('')
+    galaxySearchResults.innerHTML = rows || (query ? '<div class="galaxy-search-note">No matches.</div>' : '')
+  }
+  function pickGalaxySearch(sample: GalaxySample) {
+    selectGalaxy(sample, true)
+    galaxySearchInput.value = ''
+    renderGalaxySearch()
+    galaxySearchInput.blur()
+  }
+  galaxySearchInput.addEventListener('input', renderGalaxySearch)
+  galaxySearchInput.addEventListener('keydown', (ev) => {
+    if (ev.key === 'Enter' && galaxyMatches[0]) pickGalaxySearch(galaxyMatches[0])
+    if (ev.key === 'Escape') {
+      galaxySearchInput.value = ''
+      renderGalaxySearch()
+    }
+  })
+  galaxySearchResults.addEventListener('click', (ev) => {
+    const button = (ev.target as HTMLElement).closest<HTMLButtonElement>('button')
+    const sample = button ? galaxyMatches[Number(button.dataset.index)] : undefined
+    if (sample) pickGalaxySearch(sample)
+  })
+
+  // Swaps in a new catalog: backdrop points, selection, search, fit and chart all start over.
+  function applyGalaxyCatalog(catalog: GalaxyCatalog) {
+    galaxyCatalog = catalog
+    galaxySamples = catalog.samples
+    layoutGalaxies()
+    selectedGalaxy = null
+    galaxyMarker.visible = false
+    const markerIndex = hoverTargets.indexOf(galaxyMarkerTarget)
+    if (markerIndex >= 0) hoverTargets.splice(markerIndex, 1)
+    if (cameraFocus.focused() === galaxyMarker) cameraFocus.clear()
+    galaxySearchKeys = galaxySamples.map((sample) => galaxySearchKey(sample.name))
+    renderGalaxySearch()
+    window.clearTimeout(hubbleRefitTimer)
+    hubbleFit = fitHubbleSample(galaxySamples, hubbleFitOptions())
+    hubbleFitKey = JSON.stringify(hubbleFit.options)
+    hubbleViews = defaultHubbleViews()
+    hubbleStripTitle.textContent = `Hubble flow / ${catalog.label}`
+    drawHubbleChart()
+    updateHubbleNote()
+  }
+
+  const eclipsePanel = document.createElement('div')
+  eclipsePanel.className = 'eclipse-panel'
+  eclipsePanel.style.display = 'none'
+  eclipsePanel.innerHTML = `
+    <div class="eclipse-panel-title">Eclipses</div>
+    <input class="eclipse-search" type="search" placeholder="Filter: lunar, total, 2027, visible…" />
+    <div class="eclipse-list"></div>
+    <div class="eclipse-panel-note">Peak times in ${escapeHtml(DEFAULT_TIME_ZONE)}. Visibility is for the configured location.</div>
+  `
+  panel.root.appendChild(eclipsePanel)
+  const eclipseSearch = eclipsePanel.querySelector<HTMLInputElement>('.eclipse-search')!
+  const eclipseList = eclipsePanel.querySelector<HTMLDivElement>('.eclipse-list')!
+  eclipseList.addEventListener('click', (ev) => {
+    const button = (ev.target as HTMLElement).closest<HTMLButtonElement>('button[data-peak]')
+    if (!button || !opts.onJumpToTime) return
+    opts.onJumpToTime(new Date(Number(button.dataset.peak)))
+  })
 
-  const earthTex = await new THREE.TextureLoader().loadAsync(
-    `${import.meta.env.BASE_URL}textures/earth_day_4k.jpg`
-  )
-  earthTex.colorSpace = THREE.SRGBColorSpace
-  earthTex.anisotropy = 8
-  earthTex.wrapS = THREE.RepeatWrapping
+  // The list covers a few years either side of the sim time and is rebuilt when the
+  // sim drifts toward either edge or the observer moves.
+  const ECLIPSE_PAST_MS = 3 * 365.25 * DAY_MS
+  const ECLIPSE_FUTURE_MS = 6 * 365.25 * DAY_MS
+  let eclipseEvents: EclipseEvent[] = []
+  let eclipseWindow = { startMs: Number.NaN, endMs: Number.NaN, lat: Number.NaN, lon: Number.NaN }
+  let eclipseComputedAtMs = 0
+  let eclipseListKey = ''
+
+  // Visible ISS passes over the next five days, refreshed a day on, once they have all
+  // gone by, or when the observer moves. SGP4 is only trusted within two weeks of the elements.
+  function updateIssPasses(
+    sim: Date,
+    observer: { lat: number; lon: number; elevationM: number },
+    displayZone: string
+  ) {
+    if (!iss) {
+      overlayFields.issPasses.textContent = 'no ISS element set in data/satellites.txt'
+      return
+    }
+    const simMs = sim.getTime()
+    const ageDays = Math.abs(simMs - iss.epoch.getTime()) / DAY_MS
+    if (ageDays > 14) {
+      overlayFields.issPasses.textContent = `elements are from ${iss.epoch.toISOString().slice(0, 10)}, ${ageDays.toFixed(0)} days off; drop a current set into data/satellites.txt`
+      return
+    }
 
-  for (const b of bodies) {
-    const group = new THREE.Group()
-    if (b.body === Body.Earth) {
-      group.rotation.x = -OBLIQUITY_RAD
+    const { lat, lon, elevationM } = observer
+    const key = `${lat.toFixed(3)}|${lon.toFixed(3)}|${elevationM.toFixed(0)}`
+    const stale =
+      key !== issPassKey ||
+      !(simMs >= issPassFromMs && simMs < issPassFromMs + DAY_MS) ||
+      (issPasses.length > 0 && issPasses.every((pass) => pass.set.getTime() <= simMs))
+    if (stale && performance.now() - issPassComputedAtMs > 500) {
+      issPassKey = key
+      issPassFromMs = simMs
+      issPassComputedAtMs = performance.now()
+      issPasses = findVisiblePasses(iss, observer, sim, 5, 4)
     }
-    scene.add(group)
-    planetGroups.set(b.body, group)
 
-    let mesh: THREE.Mesh
-    if (b.body === Body.Earth) {
-      mesh = new THREE.Mesh(
-        new THREE.SphereGeometry(b.radius, 96, 96),
-        new THREE.MeshStandardMaterial({ map: earthTex, roughness: 1, metalness: 0 })
-      )
+    const upcoming = issPasses.filter((pass) => pass.set.getTime() > simMs).slice(0, 3)
+    overlayFields.issPasses.textContent = upcoming.length
+      ? upcoming
+          .map(
+            (pass) =>
+              `${formatTime(pass.rise, displayZone).slice(5, 16)} ${compassPoint(pass.riseAzDeg)} → ` +
+              `${formatClock(pass.culmination, displayZone)} ${pass.maxElevationDeg.toFixed(0)}° → ` +
+              `${formatClock(pass.set, displayZone)} ${compassPoint(pass.setAzDeg)}`
+          )
+          .join(' · ')
+      : `none visible before ${formatTime(new Date(issPassFromMs + 5 * DAY_MS), displayZone).slice(5, 16)}`
+  }
 
-      const atmosphere = new THREE.Mesh(
-        new THREE.SphereGeometry(b.radius * 1.03, 64, 64),
-        new THREE.MeshBasicMaterial({ color: 0x2a7fff, transparent: true, opacity: 0.1 })
-      )
-      group.add(atmosphere)
+  function satelliteSummary(sim: Date) {
+    if (!satellites.length) return 'none loaded (add data/satellites.txt)'
+    const count = (kind: Satellite['kind']) => satellites.filter((sat) => sat.kind === kind).length
+    const ages = satellites.map((sat) => Math.abs(sim.getTime() - sat.epoch.getTime()) / DAY_MS)
+    return `${count('station')} stations, ${count('gnss')} GNSS, ${count('other')} other · elements ${Math.min(...ages).toFixed(0)}–${Math.max(...ages).toFixed(0)} days from sim`
+  }
 
-      const marker = new THREE.Mesh(
-        new THREE.SphereGeometry(0.02, 16, 16),
-        new THREE.MeshBasicMaterial({ color: 0xffcc33 })
-      )
-      marker.name = 'earth-marker'
-      mesh.add(marker)
+  // The scale bar is measured at the orbit target's distance; size factors compare each drawn
+  // radius with the body's true radius at the mode's units per AU.
+  function updateScaleLegend(sunRadius: number, sunCapped: boolean, moonHeightFactor: number) {
+    const mode = SCALE_MODES[sceneScale.mode()]
+    const viewDistance = camera.position.distanceTo(controls.target)
+    const pxPerUnit = panel.renderer.domElement.clientHeight / (2 * viewDistance * Math.tan((camera.fov * Math.PI) / 360))
+    const ticks: Array<{ px: number; label: string }> = [{ px: 0, label: '0' }]
+    if (sceneScale.mode() === 'true') {
+      const maxAU = 160 / (pxPerUnit * mode.unitsPerAU)
+      const niceBelow = (x: number) => {
+        const power = 10 ** Math.floor(Math.log10(x))
+        return [5, 2, 1].map((m) => m * power).find((v) => v <= x)!
+      }
+      const lengthAU = maxAU >= 0.01 ? niceBelow(maxAU) : niceBelow(maxAU * AU_KM) / AU_KM
+      const label = maxAU >= 0.01 ? `${+lengthAU.toPrecision(3)} AU` : `${Math.round(lengthAU * AU_KM).toLocaleString('en-US')} km`
+      ticks.push({ px: lengthAU * mode.unitsPerAU * pxPerUnit, label })
     } else {
-      mesh = new THREE.Mesh(
-        new THREE.SphereGeometry(b.radius, 24, 24),
-        new THREE.MeshStandardMaterial({ color: b.color, roughness: 0.95, metalness: 0 })
-      )
+      // Non-linear laws have no single bar length, so mark distances from the Sun instead.
+      for (const au of [0.01, 0.1, 1, 10, 30]) {
+        const px = mode.distance(au) * pxPerUnit
+        if (px >= 18 && px <= 240) ticks.push({ px, label: `${au} AU` })
+      }
     }
-
-    group.add(mesh)
-    planetMeshes.set(b.body, mesh)
-    hoverTargets.push({ obj: mesh, label: b.name })
-
-    const positions = new Float32Array(TRAIL_POINTS * 3)
-    const geom = new THREE.BufferGeometry()
-    geom.setAttribute('position', new THREE.BufferAttribute(positions, 3))
-    geom.setDrawRange(0, 0)
-    const mat = new THREE.LineBasicMaterial({
-      color: 0x90a4ae,
-      transparent: true,
-      opacity: 0.35,
-    })
-    const line = new THREE.Line(geom, mat)
-    scene.add(line)
-    trails.set(b.body, { positions, geom, line, index: 0, count: 0 })
+    const barWidth = ticks[ticks.length - 1].px
+    const barHtml = `
+      <div class="scale-bar-track" style="width: ${barWidth.toFixed(0)}px">
+        ${ticks.map((tick) => `<span class="scale-bar-tick" style="left: ${tick.px.toFixed(0)}px">${tick.label}</span>`).join('')}
+      </div>
+      <div class="scale-bar-note">${sceneScale.mode() === 'true' ? 'at the orbit target' : `from ${REFERENCE_FRAMES[sceneFrame.name()].origin}, at the orbit target`}</div>
+    `
+
+    const trueRadius = (radiusKm: number) => (radiusKm / AU_KM) * sceneScale.unitsPerAU
+    const planetFactors = bodies.map((b) => (b.radius * planetGroups.get(b.body)!.scale.x) / trueRadius(b.radiusKm))
+    const moonFactor = (moonBaseRadius * moon.scale.x) / trueRadius(MOON_RADIUS_KM)
+    const moonSystems = MOON_SYSTEMS.map((system) => `${system.name} ×${formatFactor(sceneScale.moonHeight(system.exaggeration))}`)
+    const lines = [
+      `Distances from ${REFERENCE_FRAMES[sceneFrame.name()].origin}: ${mode.distanceLabel}`,
+      ...(sceneScale.mode() === 'true' ? [] : [`Size factors against ${sceneScale.unitsPerAU.toFixed(2)} units per AU, the scale at 1 AU`]),
+      `Sun drawn ×${formatFactor(sunRadius / trueRadius(SUN_RADIUS_KM))}${sunCapped ? ', capped inside Mercury’s perihelion' : ''}`,
+      `Planets drawn ×${formatFactor(Math.min(...planetFactors))}–×${formatFactor(Math.max(...planetFactors))} (size slider ×${formatFactor(sceneScale.sizeExaggeration())})`,
+      `Moon drawn ×${formatFactor(moonFactor)}, height above Earth ×${formatFactor(moonHeightFactor)}`,
+      `Moon heights above their planets: ${moonSystems.join(' · ')}`,
+      'Not to scale: position dots, minor-body and satellite markers, comet tails',
+    ]
+    const linesHtml = lines.map((line) => `<div>${escapeHtml(line)}</div>`).join('')
+    if (barHtml + linesHtml === scaleLegendHtml) return
+    scaleLegendHtml = barHtml + linesHtml
+    scaleBar.innerHTML = barHtml
+    scaleLegendLines.innerHTML = linesHtml
   }
 
-  // Moon shown near Earth, with exaggerated distance so it stays legible at AU scale.
-  const moon = new THREE.Mesh(
-    new THREE.SphereGeometry(0.015, 20, 20),
-    new THREE.MeshStandardMaterial({ color: 0xd6d6d6, roughness: 1, metalness: 0 })
-  )
-  scene.add(moon)
-  hoverTargets.push({ obj: moon, label: 'Moon' })
-
-  const overlay = panel.root.querySelector<HTMLElement>('.overlay')!
-  const tooltip = panel.root.querySelector<HTMLElement>('.tooltip')!
+  function updateEclipseList(sim: Date, lat: number, lon: number, elevationM: number, timeZone: string) {
+    const simMs = sim.getTime()
+    const yearMs = 365.25 * DAY_MS
+    const stale =
+      !(simMs > eclipseWindow.startMs + yearMs && simMs < eclipseWindow.endMs - yearMs) ||
+      Math.abs(eclipseWindow.lat - lat) + Math.abs(eclipseWindow.lon - lon) > 0.01 ||
+      Number.isNaN(eclipseWindow.lat)
+    // Throttle rebuilds so dragging the location sliders stays responsive.
+    if (stale && performance.now() - eclipseComputedAtMs > 1000) {
+      eclipseWindow = { startMs: simMs - ECLIPSE_PAST_MS, endMs: simMs + ECLIPSE_FUTURE_MS, lat, lon }
+      eclipseEvents = findEclipses(
+        new Date(eclipseWindow.startMs),
+        new Date(eclipseWindow.endMs),
+        new Observer(lat, lon, elevationM)
+      )
+      eclipseComputedAtMs = performance.now()
+    }
 
-  const moonInset = document.createElement('div')
-  moonInset.className = 'moon-inset'
-  moonInset.innerHTML = `
-    <div class="moon-inset-title">Moon true scale</div>
-    <canvas class="moon-inset-canvas" width="460" height="140"></canvas>
-    <div class="moon-inset-note">Earth-Moon distance rendered at actual scale, using the current geocentric vector.</div>
-  `
-  panel.root.appendChild(moonInset)
-  const moonInsetCanvas = moonInset.querySelector<HTMLCanvasElement>('.moon-inset-canvas')!
-  const moonInsetCtx = moonInsetCanvas.getContext('2d')
-  if (!moonInsetCtx) {
-    throw new Error('Moon inset canvas unavailable')
+    const nextIndex = eclipseEvents.findIndex((e) => e.peak.getTime() >= simMs)
+    const key = `${eclipseComputedAtMs}|${nextIndex}|${eclipseSearch.value}|${timeZone}`
+    if (key === eclipseListKey) return
+    eclipseListKey = key
+    eclipseList.innerHTML = buildEclipseListHtml(eclipseEvents, eclipseSearch.value, sim, timeZone)
   }
-
-  const hubbleStrip = document.createElement('div')
-  hubbleStrip.className = 'hubble-strip'
-  hubbleStrip.innerHTML = `
-    <div class="hubble-strip-title">Hubble flow / HyperLeda sample</div>
-    <div class="hubble-strip-chart"></div>
-    <div class="hubble-strip-note">Distance modulus to distance, velocity versus distance, least-squares fit with intercept.</div>
-  `
-  panel.root.appendChild(hubbleStrip)
-  const hubbleStripChart = hubbleStrip.querySelector<HTMLDivElement>('.hubble-strip-chart')!
-  const hubbleFit = fitHubbleSample(galaxySamples)
-  const h0Fit = hubbleFit.slope
-  const ageFromH0 = 977.8 / h0Fit
-  hubbleStripChart.innerHTML = buildHubbleChartSvg(galaxySamples, hubbleFit)
+  drawHubbleChart()
+  updateHubbleNote()
 
   overlay.innerHTML = `
     <div class="combined-overlay">
@@ -1160,8 +5562,19 @@ async function buildCombinedPanel(
         <div class="card-lines">
           <div>Clock time: <span data-field="clock-time"></span></div>
           <div>Sim time: <span data-field="sim-time"></span></div>
+          <div>Observer: <span data-field="observer-time"></span></div>
+          <div>UTC: <span data-field="utc-time"></span></div>
+          <div>JD <span data-field="julian-date"></span> · MJD <span data-field="modified-julian-date"></span></div>
+          <div>Sidereal: <span data-field="sidereal"></span></div>
+          <div>Equation of time: <span data-field="equation-of-time"></span></div>
           <div>Sun alt/az: <span data-field="sun-altaz"></span></div>
           <div>Location: <span data-field="daylight"></span></div>
+          <div>Sun (<span data-field="almanac-date"></span>): <span data-field="almanac-sun"></span></div>
+          <div>Twilight: <span data-field="almanac-twilight"></span></div>
+          <div>Moon: <span data-field="almanac-moon"></span></div>
+          <div>Planets: <span data-field="almanac-planets"></span></div>
+          <div>Satellites: <span data-field="satellites"></span></div>
+          <div>ISS passes: <span data-field="iss-passes"></span></div>
           <div>Earth axial tilt: <span data-field="earth-tilt"></span> · Moon inset: true scale, Earth radius = 2.8 px</div>
           <div data-field="weather-line"></div>
         </div>
@@ -1172,19 +5585,31 @@ async function buildCombinedPanel(
         <div class="card-lines">
           <div>Earth-Sun distance: <span data-field="earth-distance"></span> AU</div>
           <div>Earth ecliptic longitude: <span data-field="earth-longitude"></span></div>
-          <div>Moon main-view scale: <span data-field="moon-exaggeration"></span>x for legibility</div>
+          <div>Moon height above Earth in the main view: ×<span data-field="moon-exaggeration"></span></div>
           <div>Moon true distance: <span data-field="moon-distance"></span> km (<span data-field="moon-earth-radii"></span> Earth radii)</div>
+          <div>Moon phase: <span data-field="moon-phase"></span></div>
+          <div>Lunar age: <span data-field="lunar-age"></span> days</div>
+          <div>Next: <span data-field="moon-quarters"></span></div>
+          <div>Eclipse: <span data-field="eclipse-status"></span></div>
         </div>
       </section>
       <section class="info-card info-card-universe">
         <p class="card-kicker">Universe</p>
-        <h2>ΛCDM age model</h2>
+        <h2 data-field="cosmology-name"></h2>
         <div class="card-lines">
-          <div>Cosmic age ≈ <span data-field="cosmic-age"></span> Gyr</div>
-          <div>Scale factor a(t) ≈ <span data-field="scale-factor"></span></div>
-          <div>Redshift z ≈ <span data-field="redshift"></span></div>
-          <div>Backdrop: HyperLeda galaxy sample (<span data-field="galaxy-count"></span> objects)</div>
-          <div>H0 fit ≈ <span data-field="h0-fit"></span> km/s/Mpc, offset ≈ <span data-field="hubble-offset"></span> km/s, Hubble time ≈ <span data-field="hubble-time"></span> Gyr</div>
+          <div>Model: <span data-field="cosmology-params"></span></div>
+          <div>Age today ≈ <span data-field="age-today"></span> Gyr</div>
+          <div>At the epoch: age ≈ <span data-field="cosmic-age"></span> Gyr, lookback ≈ <span data-field="lookback"></span> Gyr</div>
+          <div>Scale factor a ≈ <span data-field="scale-factor"></span>, redshift z ≈ <span data-field="redshift"></span>, H(z) ≈ <span data-field="hubble-z"></span> km/s/Mpc</div>
+          <div>Comoving distance: <span data-field="comoving-distance"></span></div>
+          <div>Luminosity distance: <span data-field="luminosity-distance"></span></div>
+          <div>Angular-diameter distance: <span data-field="angular-distance"></span></div>
+          <div>Particle horizon: <span data-field="horizon"></span></div>
+          <div>Backdrop: <span data-field="catalog-name"></span> (<span data-field="galaxy-count"></span> of <span data-field="catalog-rows"></span> rows)</div>
+          <div>Dropped rows: <span data-field="catalog-rejections"></span></div>
+          <div>H0 fit ≈ <span data-field="h0-fit"></span> km/s/Mpc, offset ≈ <span data-field="hubble-offset"></span> km/s</div>
+          <div>Hubble time 1/H0 ≈ <span data-field="hubble-time"></span> Gyr</div>
+          <div>Fit versus <span data-field="h0-tension"></span></div>
           <div>Epoch: <span data-field="epoch"></span></div>
         </div>
       </section>
@@ -1194,8 +5619,21 @@ async function buildCombinedPanel(
     earthLabel: overlay.querySelector<HTMLElement>('[data-field="earth-label"]')!,
     clockTime: overlay.querySelector<HTMLElement>('[data-field="clock-time"]')!,
     simTime: overlay.querySelector<HTMLElement>('[data-field="sim-time"]')!,
+    observerTime: overlay.querySelector<HTMLElement>('[data-field="observer-time"]')!,
+    utcTime: overlay.querySelector<HTMLElement>('[data-field="utc-time"]')!,
+    julianDate: overlay.querySelector<HTMLElement>('[data-field="julian-date"]')!,
+    modifiedJulianDate: overlay.querySelector<HTMLElement>('[data-field="modified-julian-date"]')!,
+    sidereal: overlay.querySelector<HTMLElement>('[data-field="sidereal"]')!,
+    equationOfTime: overlay.querySelector<HTMLElement>('[data-field="equation-of-time"]')!,
     sunAltAz: overlay.querySelector<HTMLElement>('[data-field="sun-altaz"]')!,
     daylight: overlay.querySelector<HTMLElement>('[data-field="daylight"]')!,
+    almanacDate: overlay.querySelector<HTMLElement>('[data-field="almanac-date"]')!,
+    almanacSun: overlay.querySelector<HTMLElement>('[data-field="almanac-sun"]')!,
+    almanacTwilight: overlay.querySelector<HTMLElement>('[data-field="almanac-twilight"]')!,
+    almanacMoon: overlay.querySelector<HTMLElement>('[data-field="almanac-moon"]')!,
+    almanacPlanets: overlay.querySelector<HTMLElement>('[data-field="almanac-planets"]')!,
+    satellites: overlay.querySelector<HTMLElement>('[data-field="satellites"]')!,
+    issPasses: overlay.querySelector<HTMLElement>('[data-field="iss-passes"]')!,
     earthTilt: overlay.querySelector<HTMLElement>('[data-field="earth-tilt"]')!,
     weatherLine: overlay.querySelector<HTMLElement>('[data-field="weather-line"]')!,
     earthDistance: overlay.querySelector<HTMLElement>('[data-field="earth-distance"]')!,
@@ -1203,34 +5641,149 @@ async function buildCombinedPanel(
     moonExaggeration: overlay.querySelector<HTMLElement>('[data-field="moon-exaggeration"]')!,
     moonDistance: overlay.querySelector<HTMLElement>('[data-field="moon-distance"]')!,
     moonEarthRadii: overlay.querySelector<HTMLElement>('[data-field="moon-earth-radii"]')!,
+    moonPhase: overlay.querySelector<HTMLElement>('[data-field="moon-phase"]')!,
+    lunarAge: overlay.querySelector<HTMLElement>('[data-field="lunar-age"]')!,
+    moonQuarters: overlay.querySelector<HTMLElement>('[data-field="moon-quarters"]')!,
+    eclipseStatus: overlay.querySelector<HTMLElement>('[data-field="eclipse-status"]')!,
+    cosmologyName: overlay.querySelector<HTMLElement>('[data-field="cosmology-name"]')!,
+    cosmologyParams: overlay.querySelector<HTMLElement>('[data-field="cosmology-params"]')!,
+    ageToday: overlay.querySelector<HTMLElement>('[data-field="age-today"]')!,
     cosmicAge: overlay.querySelector<HTMLElement>('[data-field="cosmic-age"]')!,
+    lookback: overlay.querySelector<HTMLElement>('[data-field="lookback"]')!,
     scaleFactor: overlay.querySelector<HTMLElement>('[data-field="scale-factor"]')!,
     redshift: overlay.querySelector<HTMLElement>('[data-field="redshift"]')!,
+    hubbleZ: overlay.querySelector<HTMLElement>('[data-field="hubble-z"]')!,
+    comovingDistance: overlay.querySelector<HTMLElement>('[data-field="comoving-distance"]')!,
+    luminosityDistance: overlay.querySelector<HTMLElement>('[data-field="luminosity-distance"]')!,
+    angularDistance: overlay.querySelector<HTMLElement>('[data-field="angular-distance"]')!,
+    horizon: overlay.querySelector<HTMLElement>('[data-field="horizon"]')!,
     galaxyCount: overlay.querySelector<HTMLElement>('[data-field="galaxy-count"]')!,
+    catalogName: overlay.querySelector<HTMLElement>('[data-field="catalog-name"]')!,
+    catalogRows: overlay.querySelector<HTMLElement>('[data-field="catalog-rows"]')!,
+    catalogRejections: overlay.querySelector<HTMLElement>('[data-field="catalog-rejections"]')!,
     h0Fit: overlay.querySelector<HTMLElement>('[data-field="h0-fit"]')!,
     hubbleOffset: overlay.querySelector<HTMLElement>('[data-field="hubble-offset"]')!,
     hubbleTime: overlay.querySelector<HTMLElement>('[data-field="hubble-time"]')!,
+    h0Tension: overlay.querySelector<HTMLElement>('[data-field="h0-tension"]')!,
     epoch: overlay.querySelector<HTMLElement>('[data-field="epoch"]')!,
   }
 
   const raycaster = new THREE.Raycaster()
   const mouse = new THREE.Vector2()
+  let shadowTrackCenterMs = Number.NaN
+  let lunarCycle: LunarCycle | null = null
+  let almanacKey = ''
+  let almanacComputedAtMs = 0
+  let issPassKey = ''
+  let issPassFromMs = Number.NaN
+  let issPassComputedAtMs = 0
+  let issPasses: SatellitePass[] = []
+  let scaleLegendHtml = ''
+  let lastFocus: { obj: THREE.Object3D | null; radius: number } = { obj: null, radius: 0 }
+  let cosmologyKey = ''
+  let cosmology: ReturnType<typeof solveCosmology> = { problem: '' }
+
+  function updateCosmologyCard(model: Cosmology, epoch: ReturnType<typeof solveCosmology>) {
+    const k = curvatureOmega(model)
+    const geometry = Math.abs(k) < 1e-4 ? 'flat' : k > 0 ? 'open' : 'closed'
+    overlayFields.cosmologyName.textContent = opts.getCosmologyLabel ? opts.getCosmologyLabel() : 'Planck 2018'
+    overlayFields.cosmologyParams.textContent =
+      `H0 ${model.h0.toFixed(2)} · Ωm ${model.omegaM.toFixed(4)} · ΩΛ ${model.omegaLambda.toFixed(4)} · ` +
+      `Ωr ${model.omegaR.toExponential(2)} · Ωk ${k.toFixed(4)} (${geometry})`
+    const epochFields = [
+      overlayFields.ageToday,
+      overlayFields.cosmicAge,
+      overlayFields.lookback,
+      overlayFields.scaleFactor,
+      overlayFields.redshift,
+      overlayFields.hubbleZ,
+      overlayFields.comovingDistance,
+      overlayFields.luminosityDistance,
+      overlayFields.angularDistance,
+      overlayFields.horizon,
+    ]
+    if (!('a' in epoch)) {
+      for (const field of epochFields) field.textContent = '—'
+      overlayFields.epoch.textContent = epoch.problem
+      return
+    }
 
-  function pushTrail(body: Body, pos: THREE.Vector3) {
-    const trail = trails.get(body)
-    if (!trail) return
-    const { positions, geom } = trail
-
-    const i = trail.index
-    positions[3 * i + 0] = pos.x
-    positions[3 * i + 1] = pos.y
-    positions[3 * i + 2] = pos.z
+    overlayFields.ageToday.textContent = epoch.ageTodayGyr.toFixed(2)
+    overlayFields.cosmicAge.textContent = epoch.ageGyr < 0.01 ? epoch.ageGyr.toExponential(2) : epoch.ageGyr.toFixed(2)
+    overlayFields.lookback.textContent = epoch.lookbackGyr.toFixed(2)
+    overlayFields.scaleFactor.textContent = epoch.a < 0.01 ? epoch.a.toExponential(3) : epoch.a.toFixed(3)
+    overlayFields.redshift.textContent = epoch.z.toFixed(epoch.z < 10 ? 3 : 1)
+    overlayFields.hubbleZ.textContent = epoch.hubble < 1e4 ? epoch.hubble.toFixed(1) : epoch.hubble.toExponential(3)
+    // Distances to a future epoch are not observable.
+    const future = epoch.z < 0
+    overlayFields.comovingDistance.textContent = future ? '— (future epoch)' : formatCosmicDistance(epoch.comovingMpc)
+    overlayFields.luminosityDistance.textContent = future ? '—' : formatCosmicDistance(epoch.luminosityMpc)
+    overlayFields.angularDistance.textContent = future ? '—' : formatCosmicDistance(epoch.angularMpc)
+    overlayFields.horizon.textContent =
+      `${formatCosmicDistance(epoch.horizonMpc)} comoving, ${formatCosmicDistance(epoch.horizonMpc * epoch.a)} proper`
+    overlayFields.epoch.textContent = cosmicEpochLabel(epoch, model) + (epoch.problem ? ` (${epoch.problem})` : '')
+  }
 
-    trail.index = (i + 1) % TRAIL_POINTS
-    trail.count = Math.min(TRAIL_POINTS, trail.count + 1)
+  function updateHubbleCard() {
+    const fit = hubbleFit
+    if (!Number.isFinite(fit.slope)) {
+      overlayFields.h0Fit.textContent = '—'
+      overlayFields.hubbleOffset.textContent = '—'
+      overlayFields.hubbleTime.textContent = '—'
+      overlayFields.h0Tension.textContent = '—'
+      return
+    }
+    const [lo, hi] = fit.slopeInterval
+    overlayFields.h0Fit.textContent = `${fit.slope.toFixed(1)} (68%: ${lo.toFixed(1)}–${hi.toFixed(1)})`
+    overlayFields.hubbleOffset.textContent = fit.options.throughOrigin
+      ? '0 (fixed)'
+      : `${fit.intercept >= 0 ? '+' : ''}${fit.intercept.toFixed(0)}`
+    overlayFields.hubbleTime.textContent =
+      `${(HUBBLE_TIME_GYR / fit.slope).toFixed(2)} (68%: ${(HUBBLE_TIME_GYR / hi).toFixed(2)}–${(HUBBLE_TIME_GYR / lo).toFixed(2)})`
+    overlayFields.h0Tension.textContent = H0_REFERENCES.map((reference) => {
+      const sigma = hubbleTensionSigma(fit, reference)
+      const offset = Number.isFinite(sigma) ? `${sigma >= 0 ? '+' : '−'}${Math.abs(sigma).toFixed(1)}σ` : '—'
+      return `${reference.label} ${reference.h0} ± ${reference.sigma}: ${offset}`
+    }).join(' · ')
+  }
 
-    geom.setDrawRange(0, trail.count)
-    geom.attributes.position.needsUpdate = true
+  function updateAlmanac(
+    sim: Date,
+    observer: { lat: number; lon: number; elevationM: number; timeZone: string },
+    displayZone: string
+  ) {
+    // One almanac per calendar day in the observer's zone and per location; location edits
+    // are throttled because a full recompute runs a couple of dozen event searches.
+    const { lat, lon, elevationM } = observer
+    const today = zonedParts(sim, observer.timeZone)
+    const dayStart = zonedTimeToDate({ ...today, hour: 0, minute: 0, second: 0 }, observer.timeZone)
+    const key = `${dayStart.getTime()}|${lat.toFixed(3)}|${lon.toFixed(3)}|${elevationM.toFixed(0)}|${displayZone}`
+    if (key === almanacKey) return
+    const sameDay = almanacKey.startsWith(`${dayStart.getTime()}|`)
+    if (sameDay && performance.now() - almanacComputedAtMs < 250) return
+    almanacKey = key
+    almanacComputedAtMs = performance.now()
+
+    const almanac = computeAlmanac(dayStart, new Observer(lat, lon, elevationM))
+    overlayFields.almanacDate.textContent = formatTime(dayStart, observer.timeZone).slice(0, 10)
+    const formatClockIn = (d: Date | null) => formatClock(d, displayZone)
+    overlayFields.almanacSun.textContent = [
+      `rise ${formatClockIn(almanac.sunrise)}`,
+      `noon ${formatClockIn(almanac.solarNoon)}`,
+      `set ${formatClockIn(almanac.sunset)}`,
+      `day ${formatDuration(almanac.dayLengthMs)}`,
+    ].join(' · ')
+    overlayFields.almanacTwilight.textContent = almanac.twilight
+      .map((tw) => `${tw.name} ${formatClockIn(tw.dawn)}–${formatClockIn(tw.dusk)}`)
+      .join(' · ')
+    overlayFields.almanacMoon.textContent = [
+      `rise ${formatClockIn(almanac.moonrise)}`,
+      `transit ${formatClockIn(almanac.moonTransit)}`,
+      `set ${formatClockIn(almanac.moonset)}`,
+    ].join(' · ')
+    overlayFields.almanacPlanets.textContent = almanac.planets
+      .map((planet) => `${planet.name} ↑${formatClockIn(planet.rise)} ↓${formatClockIn(planet.set)}`)
+      .join(' · ')
   }
 
   function onPointerMove(ev: PointerEvent) {
@@ -1241,15 +5794,15 @@ async function buildCombinedPanel(
 
     raycaster.setFromCamera(mouse, panel.camera)
 
-    const intersects = raycaster.intersectObjects(hoverTargets.map((t) => t.obj), true)
-    if (intersects.length === 0) {
+    const found = pickHoverTarget(raycaster, hoverTargets)
+    const galaxyHit = found ? undefined : pickGalaxy(mouse)
+    const label = found ? found.label : galaxyHit && formatGalaxyLabel(galaxyHit)
+    if (!label) {
       tooltip.style.display = 'none'
       return
     }
 
-    const hit = intersects[0].object
-    const found = hoverTargets.find((t) => t.obj === hit || t.obj.children.includes(hit))
-    tooltip.textContent = found?.label ?? 'Object'
+    tooltip.textContent = label
     tooltip.style.display = 'block'
     tooltip.style.left = `${ev.clientX - rect.left + 12}px`
     tooltip.style.top = `${ev.clientY - rect.top + 12}px`
@@ -1259,12 +5812,48 @@ async function buildCombinedPanel(
   panel.renderer.domElement.addEventListener('pointerleave', () => {
     tooltip.style.display = 'none'
   })
+  // Galaxies are not hover targets (they are points, not meshes): a click that hits no body
+  // selects the galaxy under it and flies there.
+  const galaxyPointerDown = new THREE.Vector2()
+  panel.renderer.domElement.addEventListener('pointerdown', (ev) => {
+    galaxyPointerDown.set(ev.clientX, ev.clientY)
+  })
+  panel.renderer.domElement.addEventListener('click', (ev) => {
+    if (galaxyPointerDown.distanceTo(new THREE.Vector2(ev.clientX, ev.clientY)) > 4) return
+    const rect = panel.renderer.domElement.getBoundingClientRect()
+    const ndc = new THREE.Vector2(((ev.clientX - rect.left) / rect.width) * 2 - 1, -(((ev.clientY - rect.top) / rect.height) * 2 - 1))
+    raycaster.setFromCamera(ndc, panel.camera)
+    if (pickHoverTarget(raycaster, hoverTargets)) return
+    const sample = pickGalaxy(ndc)
+    if (sample) selectGalaxy(sample, true)
+  })
 
   controls.target.set(0, 0, 0)
-  controls.minDistance = 2
+  controls.minDistance = 0.5
   controls.maxDistance = 80
   camera.position.set(0, 12, 18)
   camera.lookAt(0, 0, 0)
+
+  // Clicking the observer marker opens the local sky; Shift-click flies to it instead, looking
+  // straight down.
+  const cameraFocus = makeCameraFocus(panel)
+  const observerMarker = planetMeshes.get(Body.Earth)!.getObjectByName('earth-marker')!
+  hoverTargets.push({ obj: observerMarker, label: 'Observer location' })
+  bindFocusControls(panel, hoverTargets, cameraFocus, (target, ev) => {
+    if (target.observed) pinBodyCard(target.observed)
+    if (target.obj !== observerMarker) return false
+    if (!ev.shiftKey && opts.onSelectLocation) {
+      opts.onSelectLocation()
+      return true
+    }
+    const earthGroup = planetGroups.get(Body.Earth)!
+    cameraFocus.focus(
+      observerMarker,
+      earthRadius * earthGroup.scale.x * 0.5,
+      observerMarker.getWorldPosition(new THREE.Vector3()).sub(earthGroup.position)
+    )
+    return true
+  })
   controls.addEventListener('start', () => {
     targetMotionMix = 0.22
   })
@@ -1273,9 +5862,14 @@ async function buildCombinedPanel(
   })
 
   panel.onFrame = (t) => {
-    const ageGyr = opts.getCosmicAgeGyr()
-    const a = lcdmScaleFactor(ageGyr)
-    const z = 1 / a - 1
+    const model = opts.getCosmology ? opts.getCosmology() : COSMOLOGY_PRESETS.planck2018.model
+    const epochInput = opts.getCosmicEpoch ? opts.getCosmicEpoch() : { ageGyr: opts.getCosmicAgeGyr() }
+    // The integrals are cheap but not free; only re-solve when the model or the epoch changes.
+    const nextCosmologyKey = JSON.stringify([model, epochInput])
+    if (nextCosmologyKey !== cosmologyKey) {
+      cosmologyKey = nextCosmologyKey
+      cosmology = solveCosmology(model, epochInput)
+    }
     const timeSec = performance.now() / 1000
     motionMix += (targetMotionMix - motionMix) * 0.08
     const ambientMotion = 0.18 + motionMix * 0.82
@@ -1286,54 +5880,187 @@ async function buildCombinedPanel(
     galaxyMaterial.opacity = 0.74 + Math.sin(timeSec * 0.11) * 0.04 * ambientMotion
     backdropGroup.rotation.y = -0.28 + Math.sin(timeSec * 0.01) * 0.03 * ambientMotion
     backdropGroup.rotation.z = Math.sin(timeSec * 0.02) * 0.02 * ambientMotion
-    sunGlow.scale.setScalar(0.92 + Math.sin(timeSec * 1.9) * 0.035 * ambientMotion)
-
-    let epochLabel = 'late universe'
-    if (ageGyr < 0.18) epochLabel = 'dark ages / cosmic dawn'
-    else if (ageGyr < 1) epochLabel = 'first galaxies / reionization'
-    else if (ageGyr < 6) epochLabel = 'peak star formation era'
-    else if (ageGyr < 10) epochLabel = 'maturing cosmic web'
-    else if (ageGyr < 13.8) epochLabel = 'late galaxy evolution'
-    else if (ageGyr < 20) epochLabel = 'dark energy era'
-    else epochLabel = 'far future (Λ-dominated)'
 
+    sceneScale.set(
+      opts.getScaleMode ? opts.getScaleMode() : sceneScale.mode(),
+      opts.getSizeExaggeration ? opts.getSizeExaggeration() : sceneScale.sizeExaggeration()
+    )
+    sceneScale.tick()
+    sceneFrame.set(opts.getFrame ? opts.getFrame() : sceneFrame.name())
+    const frameRotation = sceneFrame.rotation(t.sim)
+    const placeHelio = (au: THREE.Vector3) => sceneScale.place(sceneFrame.fromHelio(au, t.sim))
+    celestialSphere.update(t.sim, frameRotation, camera.position, {
+      stars: opts.getShowStars ? opts.getShowStars() : true,
+      figures: opts.getShowConstellations ? opts.getShowConstellations() : false,
+      boundaries: opts.getShowConstellationBoundaries ? opts.getShowConstellationBoundaries() : false,
+      grid: opts.getSkyGrid ? opts.getSkyGrid() : 'off',
+    })
+    // The Sun is kept inside Mercury's perihelion however far sizes are exaggerated.
+    const sunMaxRadius = 0.5 * sceneScale.place(new THREE.Vector3(0.3075, 0, 0)).length()
+    const sunRadius = Math.min(sceneScale.bodyRadius(SUN_RADIUS_KM), sunMaxRadius)
+    sun.scale.setScalar(sunRadius)
+    sun.position.copy(placeHelio(new THREE.Vector3()))
+    sunLight.position.copy(sun.position)
+    sunGlow.position.copy(sun.position)
+    sunGlow.scale.setScalar(sunRadius * 3.75 * (1 + Math.sin(timeSec * 1.9) * 0.038 * ambientMotion))
+
+    const showOrbitMarkers = opts.getShowOrbitMarkers ? opts.getShowOrbitMarkers() : false
+    const trailSpan = opts.getTrailSpan ? opts.getTrailSpan() : '90d'
     let earthDistanceAU = 0
+    let earthLongitudeDeg = 0
     for (const b of bodies) {
       const hv = HelioVector(b.body, t.sim)
-      const p = helioToEclipticVec(hv, AU * displayScale)
+      const au = helioToEclipticVec(hv)
       const group = planetGroups.get(b.body)!
-      group.position.copy(p)
-      if (b.body === Body.Earth) earthDistanceAU = vectorLength(hv, AU)
-      pushTrail(b.body, group.position)
+      group.position.copy(placeHelio(au))
+      group.scale.setScalar(sceneScale.bodyRadius(b.radiusKm) / b.radius)
+      orbits.get(b.body)!.update(t.sim, showOrbitMarkers)
+      if (b.body === Body.Earth) {
+        earthDistanceAU = vectorLength(hv)
+        earthLongitudeDeg = (Math.atan2(au.z, au.x) * 180) / Math.PI
+      }
+      const surface = planetSurfaces.get(b.body)
+      if (surface) {
+        group.quaternion.copy(planetOrientation(b.body, t.sim)).premultiply(frameRotation)
+        const sunDir = unit(au).negate().applyQuaternion(frameRotation)
+        const ringNormal = new THREE.Vector3(0, 1, 0).applyQuaternion(group.quaternion)
+        const planetRadius = surface.equatorRadius * group.scale.x
+        surface.material.uniforms.sunDirection.value.copy(sunDir)
+        surface.material.uniforms.ringNormal.value.copy(ringNormal)
+        surface.material.uniforms.planetCenter.value.copy(group.position)
+        surface.material.uniforms.planetRadius.value = planetRadius
+        if (surface.rings) {
+          surface.rings.uniforms.sunDirection.value.copy(sunDir)
+          surface.rings.uniforms.planetCenter.value.copy(group.position)
+          surface.rings.uniforms.planetRadius.value = planetRadius
+        }
+      }
+      trails.get(b.body)!.update(t.sim, trailSpanMs(trailSpan, PlanetOrbitalPeriod(b.body)), group.position)
     }
+    // The Sun's "orbit" is a year around Earth, or roughly Jupiter's period about the barycentre.
+    const frameName = sceneFrame.name()
+    const sunOrbitDays = frameName === 'geocentric' ? 365.25 : PlanetOrbitalPeriod(Body.Jupiter)
+    const sunTrailMs = frameName === 'geocentric' || frameName === 'barycentric' ? trailSpanMs(trailSpan, sunOrbitDays) : 0
+    trails.get(Body.Sun)!.update(t.sim, sunTrailMs, sun.position)
+    smallBodyLayer.update(t.sim, opts.getShowSmallBodies ? opts.getShowSmallBodies() : true, trailSpan)
+    const showPlanetMoons = opts.getShowPlanetMoons ? opts.getShowPlanetMoons() : true
+    moonSystemLayer.update(t.sim, showPlanetMoons)
+    satelliteLayer.update(t.sim, opts.getShowSatellites ? opts.getShowSatellites() : true)
 
     const earthGroup = planetGroups.get(Body.Earth)!
     const earthMesh = planetMeshes.get(Body.Earth)!
 
+    // The Moon's height above Earth's surface is scaled, not its distance from the centre, so it
+    // always clears the drawn Earth.
     const moonVec = GeoVector(Body.Moon, t.sim, true)
-    const moonP = helioToEclipticVec(moonVec, AU * displayScale)
-    const moonExaggeration = 60
-    moon.position.copy(earthGroup.position.clone().add(moonP.multiplyScalar(moonExaggeration)))
+    const earthDrawnRadius = earthRadius * earthGroup.scale.x
+    const moonHeightFactor = sceneScale.moonHeight(EARTH_MOON_EXAGGERATION)
+    const moonHeight = (vectorLength(moonVec) - EARTH_RADIUS_KM / AU_KM) * sceneScale.unitsPerAU * moonHeightFactor
+    moon.position
+      .copy(earthGroup.position)
+      .addScaledVector(unit(helioToEclipticVec(moonVec)).applyQuaternion(frameRotation), earthDrawnRadius + moonHeight)
+    moon.scale.setScalar(sceneScale.bodyRadius(MOON_RADIUS_KM) / moonBaseRadius)
+
+    dotObjects.forEach((obj, i) => {
+      dotPositions[3 * i + 0] = obj.position.x
+      dotPositions[3 * i + 1] = obj.position.y
+      dotPositions[3 * i + 2] = obj.position.z
+    })
+    dotGeom.attributes.position.needsUpdate = true
+
+    // Quarter searches are costly, so reuse the cycle until the sim leaves it.
+    if (!lunarCycle || t.sim < lunarCycle.previousNewMoon || t.sim >= lunarCycle.quarters[0].time) {
+      lunarCycle = findLunarCycle(t.sim)
+    }
+    const moonPhase = moonPhaseInfo(t.sim)
+    const lunarAgeDays = (t.sim.getTime() - lunarCycle.previousNewMoon.getTime()) / DAY_MS
 
     const textureOffsetDeg = opts.getTextureOffsetDeg ? opts.getTextureOffsetDeg() : 180
-    earthTex.offset.x = textureOffsetDeg / 360
+    earthMaterial.uniforms.uvOffset.value = textureOffsetDeg / 360
+
+    // Terminator from the same geocentric Sun vector the daylight readout uses,
+    // rotated into the ecliptic frame of the scene.
+    const earthSunDir = unit(helioToEclipticVec(GeoVector(Body.Sun, t.sim, true))).applyQuaternion(frameRotation)
+    earthMaterial.uniforms.sunDirection.value.copy(earthSunDir)
+    atmosphereMaterial.uniforms.sunDirection.value.copy(earthSunDir)
+    // The Moon is lit along the same direction; its drawn offset from Earth is exaggerated.
+    moon.material.uniforms.sunDirection.value.copy(earthSunDir)
 
     const gstHours = SiderealTime(t.sim)
     const gstRad = (gstHours * 15 * Math.PI) / 180
-    earthGroup.rotation.y = -gstRad
+    earthGroup.quaternion.setFromEuler(new THREE.Euler(-OBLIQUITY_RAD, -gstRad, 0)).premultiply(frameRotation)
 
     const lat = opts.getLat()
     const lon = opts.getLon()
-    const latRad = (lat * Math.PI) / 180
-    const lonRad = (lon * Math.PI) / 180
+    const elevationM = opts.getElevationM ? opts.getElevationM() : 0
+    const observerZone = opts.getObserverTimeZone ? opts.getObserverTimeZone() : DEFAULT_TIME_ZONE
+    const displayZone = opts.getDisplayTimeZone ? opts.getDisplayTimeZone() : DEFAULT_TIME_ZONE
     const markerMesh = earthMesh.children.find((child) => child.name === 'earth-marker') as THREE.Mesh
-    markerMesh.position.set(
-      1.01 * earthRadius * Math.cos(latRad) * Math.cos(lonRad),
-      1.01 * earthRadius * Math.sin(latRad),
-      1.01 * earthRadius * Math.cos(latRad) * Math.sin(lonRad)
-    )
+    markerMesh.position.copy(latLonToVec3(lat, lon, 1.01 * earthRadius))
+
+    for (const hit of pickSpheres) {
+      const parent = hit.parent!
+      const worldRadius = camera.position.distanceTo(parent.getWorldPosition(new THREE.Vector3())) * 0.012
+      hit.scale.setScalar(worldRadius / parent.getWorldScale(new THREE.Vector3()).x)
+    }
+
+    // Keep a followed body framed while a scale change grows or shrinks it.
+    const focused = cameraFocus.focused()
+    const focusedRadius = focused ? objectRadius(focused) : 0
+    if (focused && focused === lastFocus.obj && lastFocus.radius > 0) cameraFocus.rescale(focusedRadius / lastFocus.radius)
+    lastFocus = { obj: focused, radius: focusedRadius }
+    cameraFocus.update()
+
+    // Eclipses: Earth's shadow cone during lunar eclipses, the Moon's ground track during solar ones.
+    const earthShadowInfo = earthShadowAtMoon(t.sim)
+    const lunarInProgress = earthShadowInfo.offAxisKm < earthShadowInfo.penumbraKm + MOON_RADIUS_KM
+    earthShadow.visible = lunarInProgress
+    if (lunarInProgress) {
+      const moonDistanceRE = vectorLength(moonVec, AU_KM) / EARTH_RADIUS_KM
+      const axialScale = moon.position.distanceTo(earthGroup.position) / moonDistanceRE
+      earthShadow.position.copy(earthGroup.position)
+      earthShadow.quaternion.setFromUnitVectors(new THREE.Vector3(0, 1, 0), earthSunDir.clone().negate())
+      earthShadow.scale.set(earthDrawnRadius, axialScale, earthDrawnRadius)
+    }
+
+    const moonShadowInfo = moonShadowOnEarth(t.sim)
+    const solarInProgress = moonShadowInfo.axisDistanceKm < EARTH_RADIUS_KM + moonShadowInfo.penumbraKm
+    const shadowTrack = earthMesh.children.find((child) => child.name === 'moon-shadow-track') as THREE.Line
+    const shadowSpot = earthMesh.children.find((child) => child.name === 'moon-shadow-spot') as THREE.Mesh
+    shadowTrack.visible = solarInProgress
+    shadowSpot.visible = solarInProgress && moonShadowInfo.ground != null
+    if (moonShadowInfo.ground) {
+      shadowSpot.position.copy(latLonToVec3(moonShadowInfo.ground.lat, moonShadowInfo.ground.lon, 1.01 * earthRadius))
+    }
+    if (solarInProgress && !(Math.abs(t.sim.getTime() - shadowTrackCenterMs) < 3600000)) {
+      // Sample the central line ±4 h around now; rebuilt hourly as the shadow moves on.
+      shadowTrackCenterMs = t.sim.getTime()
+      const points: THREE.Vector3[] = []
+      for (let minutes = -240; minutes <= 240; minutes += 4) {
+        const ground = moonShadowOnEarth(new Date(shadowTrackCenterMs + minutes * 60000)).ground
+        if (ground) points.push(latLonToVec3(ground.lat, ground.lon, 1.005 * earthRadius))
+      }
+      shadowTrack.geometry.setFromPoints(points)
+    }
 
-    const observer = new Observer(lat, lon, 0)
+    let eclipseStatus = 'none in progress'
+    if (lunarInProgress) {
+      const { offAxisKm, umbraKm } = earthShadowInfo
+      if (offAxisKm < umbraKm - MOON_RADIUS_KM) eclipseStatus = 'total lunar eclipse in progress'
+      else if (offAxisKm < umbraKm + MOON_RADIUS_KM) eclipseStatus = 'partial lunar eclipse in progress'
+      else eclipseStatus = 'penumbral lunar eclipse in progress'
+    } else if (moonShadowInfo.ground) {
+      eclipseStatus = `central solar eclipse, shadow at ${moonShadowInfo.ground.lat.toFixed(1)}°, ${moonShadowInfo.ground.lon.toFixed(1)}°`
+    } else if (solarInProgress) {
+      eclipseStatus = 'partial solar eclipse in progress'
+    }
+
+    const showEclipses = opts.getShowEclipses ? opts.getShowEclipses() : false
+    eclipsePanel.style.display = showEclipses ? '' : 'none'
+    if (showEclipses) updateEclipseList(t.sim, lat, lon, elevationM, displayZone)
+
+    const observer = new Observer(lat, lon, elevationM)
+    updateBodyCards(t.sim, observer)
     const eqTop = Equator(Body.Sun, t.sim, observer, true, true)
     const hor = Horizon(t.sim, observer, eqTop.ra, eqTop.dec, 'normal')
 
@@ -1342,29 +6069,60 @@ async function buildCombinedPanel(
     const weatherLines = opts.getWeatherLines ? opts.getWeatherLines() : []
 
     const moonDistanceKm = vectorLength(moonVec, AU_KM)
-    const moonDistanceEarthRadii = moonDistanceKm / 6371
+    const moonDistanceEarthRadii = moonDistanceKm / EARTH_RADIUS_KM
     overlayFields.earthLabel.textContent = label
-    overlayFields.clockTime.textContent = `${formatTime(t.now)} (${DEFAULT_TIME_ZONE})`
-    overlayFields.simTime.textContent = `${formatTime(t.sim)} (${DEFAULT_TIME_ZONE})`
+    const scales = computeTimeScales(t.sim, lon)
+    const eotSeconds = Math.round(Math.abs(scales.equationOfTimeMin) * 60)
+    overlayFields.clockTime.textContent = `${formatTime(t.now, displayZone)} (${displayZone})`
+    overlayFields.simTime.textContent = `${formatTime(t.sim, displayZone)} (${displayZone}, ${formatUtcOffset(t.sim, displayZone)})`
+    overlayFields.observerTime.textContent = `${formatTime(t.sim, observerZone)} (${observerZone}, ${formatUtcOffset(t.sim, observerZone)})`
+    overlayFields.utcTime.textContent = formatTime(t.sim, 'UTC')
+    overlayFields.julianDate.textContent = scales.jd.toFixed(5)
+    overlayFields.modifiedJulianDate.textContent = scales.mjd.toFixed(5)
+    overlayFields.sidereal.textContent = [
+      `GMST ${formatHms(scales.gmstHours)}`,
+      `GAST ${formatHms(scales.gastHours)}`,
+      `LMST ${formatHms(scales.lmstHours)}`,
+      `LAST ${formatHms(scales.lastHours)}`,
+    ].join(' · ')
+    overlayFields.equationOfTime.textContent = `${scales.equationOfTimeMin < 0 ? '−' : '+'}${Math.floor(eotSeconds / 60)}m ${`${eotSeconds % 60}`.padStart(2, '0')}s (sundial ${scales.equationOfTimeMin < 0 ? 'slow' : 'fast'})`
     overlayFields.sunAltAz.textContent = `${hor.altitude.toFixed(1)}° / ${hor.azimuth.toFixed(1)}°`
     overlayFields.daylight.textContent = daylight ? 'daylight' : 'night'
+    updateAlmanac(t.sim, { lat, lon, elevationM, timeZone: observerZone }, displayZone)
+    updateIssPasses(t.sim, { lat, lon, elevationM }, displayZone)
+    overlayFields.satellites.textContent = satelliteSummary(t.sim)
     overlayFields.earthTilt.textContent = `${(OBLIQUITY_RAD * 180 / Math.PI).toFixed(1)}°`
     overlayFields.weatherLine.innerHTML = weatherLines.map((line) => `<div>${escapeHtml(line)}</div>`).join('')
     overlayFields.earthDistance.textContent = earthDistanceAU.toFixed(3)
-    overlayFields.earthLongitude.textContent = `${((Math.atan2(earthGroup.position.z, earthGroup.position.x) * 180) / Math.PI).toFixed(1)}°`
-    overlayFields.moonExaggeration.textContent = `${moonExaggeration}`
+    overlayFields.earthLongitude.textContent = `${earthLongitudeDeg.toFixed(1)}°`
+    overlayFields.moonExaggeration.textContent = formatFactor(moonHeightFactor)
     overlayFields.moonDistance.textContent = moonDistanceKm.toFixed(0)
     overlayFields.moonEarthRadii.textContent = moonDistanceEarthRadii.toFixed(1)
-    overlayFields.cosmicAge.textContent = ageGyr.toFixed(2)
-    overlayFields.scaleFactor.textContent = a.toFixed(3)
-    overlayFields.redshift.textContent = z.toFixed(2)
+    overlayFields.moonPhase.textContent = `${moonPhase.name}, ${(moonPhase.illuminatedFraction * 100).toFixed(1)}% lit, phase angle ${moonPhase.phaseAngleDeg.toFixed(1)}°`
+    overlayFields.lunarAge.textContent = lunarAgeDays.toFixed(1)
+    overlayFields.moonQuarters.textContent = lunarCycle.quarters
+      .map((q) => `${q.name.replace(' moon', '')} ${formatTime(q.time, displayZone).slice(5, 16)}`)
+      .join(' · ')
+    overlayFields.eclipseStatus.textContent = eclipseStatus
+    updateCosmologyCard(model, cosmology)
+    const nextCatalog = opts.getGalaxyCatalog()
+    if (nextCatalog !== galaxyCatalog) applyGalaxyCatalog(nextCatalog)
+    overlayFields.catalogName.textContent = galaxyCatalog.label
     overlayFields.galaxyCount.textContent = `${galaxySamples.length}`
-    overlayFields.h0Fit.textContent = h0Fit.toFixed(1)
-    overlayFields.hubbleOffset.textContent = `${hubbleFit.intercept >= 0 ? '+' : ''}${hubbleFit.intercept.toFixed(0)}`
-    overlayFields.hubbleTime.textContent = ageFromH0.toFixed(2)
-    overlayFields.epoch.textContent = epochLabel
-
-    drawMoonInset(moonInsetCanvas, moonInsetCtx, moonVec)
+    overlayFields.catalogRows.textContent = `${galaxyCatalog.rowCount}`
+    overlayFields.catalogRejections.textContent = formatCatalogRejections(galaxyCatalog)
+    updateHubbleChart()
+    updateHubbleCard()
+
+    drawMoonInset(moonInsetCanvas, moonInsetCtx, moonVec, moonPhase)
+    updateScaleLegend(sunRadius, sunRadius < sceneScale.bodyRadius(SUN_RADIUS_KM), moonHeightFactor)
+
+    const insetName = opts.getMoonSystemInset ? opts.getMoonSystemInset() : ''
+    const insetSystem = MOON_SYSTEMS.find((s) => s.name === insetName)
+    moonSystemInset.style.display = insetSystem && showPlanetMoons ? '' : 'none'
+    if (insetSystem && showPlanetMoons) {
+      drawMoonSystemInset(moonSystemCanvas, moonSystemCtx, insetSystem, moonSystemView(insetSystem, planetMoons, t.sim))
+    }
   }
 }
 
@@ -1441,6 +6199,466 @@ async function maybeFetchWeather(state: WeatherState, lat: number, lon: number,
   }
 }
 
+function buildTimeBar(root: HTMLElement, time: TimeController) {
+  const steps: Array<{ id: string; label: string; ms: number }> = [
+    { id: 'minute', label: '1 min', ms: 60000 },
+    { id: 'hour', label: '1 h', ms: 3600000 },
+    { id: 'solar-day', label: 'solar day', ms: DAY_MS },
+    { id: 'sidereal-day', label: 'sidereal day', ms: SIDEREAL_DAY_MS },
+    { id: 'synodic-month', label: 'synodic month', ms: SYNODIC_MONTH_MS },
+    { id: 'year', label: 'year', ms: TROPICAL_YEAR_MS },
+  ]
+  const speedPresets = [-86400, -3600, -60, -1, 1, 60, 3600, 86400, 604800]
+  const zones = ['UTC', DEFAULT_TIME_ZONE, ...Intl.supportedValuesOf('timeZone')]
+    .filter((zone, i, all) => all.indexOf(zone) === i)
+
+  // The timeline spans these years; step buttons handle fine adjustments.
+  const TIMELINE_START_YEAR = 1500
+  const TIMELINE_END_YEAR = 2500
+  const yearOf = (ms: number) => 1970 + ms / TROPICAL_YEAR_MS
+
+  root.innerHTML = `
+    <div class="timebar">
+      <div class="timebar-group">
+        <button type="button" data-action="pause"></button>
+        <button type="button" data-action="reverse" title="Reverse time">⇄</button>
+        <label>speed <input class="timebar-speed" type="number" step="any" /> ×</label>
+        <select class="timebar-presets" aria-label="Speed presets">
+          <option value="">presets</option>
+          ${speedPresets.map((v) => `<option value="${v}">${v}×</option>`).join('')}
+        </select>
+      </div>
+      <div class="timebar-group">
+        <input class="timebar-date" type="datetime-local" step="1" aria-label="Sim date and time" />
+        <select class="timebar-zone" aria-label="Time zone">
+          ${zones.map((zone) => `<option value="${escapeHtml(zone)}">${escapeHtml(zone)}</option>`).join('')}
+        </select>
+        <button type="button" data-action="go">Go</button>
+        <button type="button" data-action="now">Now</button>
+      </div>
+      <div class="timebar-group">
+        ${steps
+          .map(
+            (step) => `
+              <span class="timebar-step">
+                <button type="button" data-step="${step.id}" data-sign="-1" title="Back ${step.label}">−</button>
+                ${step.label}
+                <button type="button" data-step="${step.id}" data-sign="1" title="Forward ${step.label}">+</button>
+              </span>
+            `
+          )
+          .join('')}
+      </div>
+      <label class="timebar-timeline">
+        <span>${TIMELINE_START_YEAR}</span>
+        <input type="range" min="${TIMELINE_START_YEAR}" max="${TIMELINE_END_YEAR}" step="any" aria-label="Timeline" />
+        <span>${TIMELINE_END_YEAR}</span>
+      </label>
+    </div>
+  `
+
+  const pauseButton = root.querySelector<HTMLButtonElement>('[data-action="pause"]')!
+  const speedInput = root.querySelector<HTMLInputElement>('.timebar-speed')!
+  const presetSelect = root.querySelector<HTMLSelectElement>('.timebar-presets')!
+  const dateInput = root.querySelector<HTMLInputElement>('.timebar-date')!
+  const zoneSelect = root.querySelector<HTMLSelectElement>('.timebar-zone')!
+  const timeline = root.querySelector<HTMLInputElement>('.timebar-timeline input')!
+  zoneSelect.value = DEFAULT_TIME_ZONE
+
+  root.addEventListener('click', (ev) => {
+    const button = (ev.target as HTMLElement).closest<HTMLButtonElement>('button')
+    if (!button) return
+    const step = steps.find((s) => s.id === button.dataset.step)
+    if (step) time.step(step.ms * Number(button.dataset.sign))
+    else if (button.dataset.action === 'pause') time.paused = !time.paused
+    else if (button.dataset.action === 'reverse') time.reverse()
+    else if (button.dataset.action === 'now') time.resetNow()
+    else if (button.dataset.action === 'go') goToInput()
+  })
+
+  function goToInput() {
+    const match = /^(-?\d+)-(\d\d)-(\d\d)T(\d\d):(\d\d)(?::(\d\d))?/.exec(dateInput.value)
+    if (!match) return
+    const [year, month, day, hour, minute, second = 0] = match.slice(1).map((v) => Number(v ?? 0))
+    time.jumpTo(zonedTimeToDate({ year, month, day, hour, minute, second }, zoneSelect.value))
+  }
+
+  dateInput.addEventListener('keydown', (ev) => {
+    if (ev.key === 'Enter') goToInput()
+  })
+  zoneSelect.addEventListener('change', () => {
+    dateInput.value = formatDateTimeInput(time.simTime, zoneSelect.value)
+  })
+  speedInput.addEventListener('change', () => {
+    const speed = Number(speedInput.value)
+    if (Number.isFinite(speed)) time.speed = speed
+  })
+  presetSelect.addEventListener('change', () => {
+    if (presetSelect.value) time.speed = Number(presetSelect.value)
+    presetSelect.value = ''
+  })
+  timeline.addEventListener('input', () => {
+    time.jumpTo(new Date((Number(timeline.value) - 1970) * TROPICAL_YEAR_MS))
+  })
+
+  // Called every frame; leaves alone whichever control the user is editing.
+  return function updateTimeBar() {
+    pauseButton.textContent = time.paused ? '▶ Play' : '❚❚ Pause'
+    if (document.activeElement !== speedInput) speedInput.value = `${time.speed}`
+    if (document.activeElement !== dateInput) {
+      dateInput.value = formatDateTimeInput(time.simTime, zoneSelect.value)
+    }
+    if (document.activeElement !== timeline) {
+      timeline.value = `${clamp(yearOf(time.simTime.getTime()), TIMELINE_START_YEAR, TIMELINE_END_YEAR)}`
+    }
+  }
+}
+
+// Sits at the top of the Location folder; the gazetteer is only fetched once the box is focused.
+function buildPlaceSearch(
+  root: HTMLElement,
+  opts: { getPlaces: () => Promise<Place[]>; onPick: (place: Place) => void }
+) {
+  const el = document.createElement('div')
+  el.className = 'place-search'
+  el.innerHTML = `
+    <input type="search" placeholder="Search places…" aria-label="Search places" />
+    <div class="place-search-results"></div>
+  `
+  root.prepend(el)
+
+  const input = el.querySelector<HTMLInputElement>('input')!
+  const results = el.querySelector<HTMLDivElement>('.place-search-results')!
+  let places: Place[] | null = null
+  let matches: Place[] = []
+
+  function render() {
+    const query = input.value.trim()
+    if (!places) {
+      results.innerHTML = query ? '<div class="place-search-note">Loading places…</div>' : ''
+      return
+    }
+    matches = searchPlaces(places, query)
+    const rows = matches
+      .map(
+        (place, i) => `
+          <button type="button" data-index="${i}">
+            <span>${escapeHtml(formatPlaceLabel(place))}</span>
+            <span class="place-search-meta">${place.lat.toFixed(2)}, ${place.lon.toFixed(2)} · ${place.elevationM} m · ${escapeHtml(place.timeZone)}</span>
+          </button>
+        `
+      )
+      .join('')
+    results.innerHTML = rows || (query ? '<div class="place-search-note">No matches.</div>' : '')
+  }
+
+  function pick(place: Place) {
+    opts.onPick(place)
+    input.value = ''
+    render()
+    input.blur()
+  }
+
+  input.addEventListener('focus', () => {
+    if (places) return
+    opts
+      .getPlaces()
+      .then((loaded) => {
+        places = loaded
+        render()
+      })
+      .catch((err) => {
+        console.warn(err)
+        results.innerHTML = '<div class="place-search-note">Place list unavailable.</div>'
+      })
+  })
+  input.addEventListener('input', render)
+  input.addEventListener('keydown', (ev) => {
+    if (ev.key === 'Enter' && matches[0]) pick(matches[0])
+    if (ev.key === 'Escape') {
+      input.value = ''
+      render()
+    }
+  })
+  results.addEventListener('click', (ev) => {
+    const button = (ev.target as HTMLElement).closest<HTMLButtonElement>('button')
+    const place = button ? matches[Number(button.dataset.index)] : undefined
+    if (place) pick(place)
+  })
+}
+
+// Drop a CSV, TSV or VOTable anywhere on the page, or pick one, to map its columns and load it as
+// the galaxy catalog. The preview applies the current cuts, so its diagnostics match what loads.
+function buildCatalogImport(
+  root: HTMLElement,
+  opts: {
+    getCuts: () => GalaxyCuts
+    onLoad: (label: string, table: CatalogTable, mapping: GalaxyColumnMapping) => void
+  }
+) {
+  const hint = document.createElement('div')
+  hint.className = 'catalog-drop-hint'
+  hint.textContent = 'Drop a CSV, TSV or VOTable galaxy catalog'
+  hint.style.display = 'none'
+  const dialog = document.createElement('div')
+  dialog.className = 'catalog-dialog'
+  dialog.setAttribute('role', 'dialog')
+  dialog.setAttribute('aria-label', 'Load a galaxy catalog')
+  dialog.style.display = 'none'
+  dialog.innerHTML = `
+    <div class="catalog-dialog-title">Load a galaxy catalog</div>
+    <div class="catalog-dialog-file"></div>
+    <label>Name <select data-field="name"></select></label>
+    <label>
+      Distance <select data-field="distance"></select>
+      <select data-field="distanceKind">
+        <option value="modulus">distance modulus (mag)</option>
+        <option value="mpc">distance (Mpc)</option>
+      </select>
+    </label>
+    <label>
+      Velocity <select data-field="velocity"></select>
+      <select data-field="velocityKind">
+        <option value="kms">velocity (km/s)</option>
+        <option value="redshift">redshift z (v = cz)</option>
+      </select>
+    </label>
+    <div class="catalog-dialog-preview"></div>
+    <div class="catalog-dialog-actions">
+      <button type="button" data-action="cancel">Cancel</button>
+      <button type="button" data-action="load">Load catalog</button>
+    </div>
+  `
+  const fileInput = document.createElement('input')
+  fileInput.type = 'file'
+  fileInput.accept = '.csv,.tsv,.txt,.dat,.vot,.xml'
+  fileInput.hidden = true
+  root.append(hint, dialog, fileInput)
+
+  const fileLine = dialog.querySelector<HTMLDivElement>('.catalog-dialog-file')!
+  const preview = dialog.querySelector<HTMLDivElement>('.catalog-dialog-preview')!
+  const loadButton = dialog.querySelector<HTMLButtonElement>('[data-action="load"]')!
+  const select = (field: keyof GalaxyColumnMapping) => dialog.querySelector<HTMLSelectElement>(`[data-field="${field}"]`)!
+  let pending: { label: string; table: CatalogTable } | null = null
+
+  const mapping = (): GalaxyColumnMapping => ({
+    name: select('name').value,
+    distance: select('distance').value,
+    distanceKind: select('distanceKind').value as GalaxyColumnMapping['distanceKind'],
+    velocity: select('velocity').value,
+    velocityKind: select('velocityKind').value as GalaxyColumnMapping['velocityKind'],
+  })
+
+  function renderPreview() {
+    if (!pending) return
+    const catalog = buildGalaxyCatalog(pending.label, pending.table, mapping(), opts.getCuts())
+    const first = catalog.samples.slice(0, 3).map((sample) => `<div>${escapeHtml(formatGalaxyLabel(sample))}</div>`)
+    preview.innerHTML = `
+      <div>${catalog.samples.length} of ${catalog.rowCount} rows accepted</div>
+      <div>Dropped: ${escapeHtml(formatCatalogRejections(catalog))}</div>
+      ${first.join('')}
+    `
+    loadButton.disabled = catalog.samples.length === 0
+  }
+
+  function close() {
+    pending = null
+    dialog.style.display = 'none'
+  }
+
+  async function openFile(file: File) {
+    dialog.style.display = ''
+    fileLine.textContent = file.name
+    let table: CatalogTable
+    try {
+      table = parseCatalogTable(await file.text())
+    } catch (err) {
+      pending = null
+      preview.textContent = `Could not read ${file.name}: ${err instanceof Error ? err.message : err}`
+      loadButton.disabled = true
+      return
+    }
+
+    pending = { label: file.name, table }
+    const options = table.columns.map((column) => `<option value="${escapeHtml(column)}">${escapeHtml(column)}</option>`).join('')
+    select('name').innerHTML = `<option value="">(none: number the rows)</option>${options}`
+    select('distance').innerHTML = options
+    select('velocity').innerHTML = options
+    const guess = guessGalaxyMapping(table.columns)
+    for (const field of Object.keys(guess) as Array<keyof GalaxyColumnMapping>) select(field).value = guess[field]
+    fileLine.textContent = `${file.name} · ${table.format} · ${table.columns.length} columns · ${table.rows.length} rows`
+    renderPreview()
+  }
+
+  dialog.addEventListener('change', renderPreview)
+  dialog.addEventListener('click', (ev) => {
+    const action = (ev.target as HTMLElement).closest<HTMLButtonElement>('button')?.dataset.action
+    if (action === 'load' && pending) opts.onLoad(pending.label, pending.table, mapping())
+    if (action === 'load' || action === 'cancel') close()
+  })
+  dialog.addEventListener('keydown', (ev) => {
+    if (ev.key === 'Escape') close()
+  })
+  fileInput.addEventListener('change', () => {
+    const file = fileInput.files?.[0]
+    if (file) void openFile(file)
+    fileInput.value = ''
+  })
+
+  // dragenter/dragleave fire for every child crossed, so count them to know when the drag left.
+  const carriesFiles = (ev: DragEvent) => !!ev.dataTransfer?.types.includes('Files')
+  let dragDepth = 0
+  window.addEventListener('dragenter', (ev) => {
+    if (!carriesFiles(ev)) return
+    dragDepth++
+    hint.style.display = ''
+  })
+  window.addEventListener('dragleave', (ev) => {
+    if (!carriesFiles(ev)) return
+    dragDepth = Math.max(0, dragDepth - 1)
+    if (!dragDepth) hint.style.display = 'none'
+  })
+  window.addEventListener('dragover', (ev) => {
+    if (carriesFiles(ev)) ev.preventDefault()
+  })
+  window.addEventListener('drop', (ev) => {
+    if (!carriesFiles(ev)) return
+    ev.preventDefault()
+    dragDepth = 0
+    hint.style.display = 'none'
+    const file = ev.dataTransfer?.files[0]
+    if (file) void openFile(file)
+  })
+
+  return { pickFile: () => fileInput.click() }
+}
+
+type Permalink = {
+  time: Date
+  paused: boolean
+  speed: number
+  lat: number
+  lon: number
+  elevationM: number
+  placeLabel: string
+  displayZone: string
+  textureOffsetDeg: number
+  cosmicAgeGyr: number
+  cosmology: Cosmology
+  // Set when the Universe card is driven by redshift rather than age.
+  redshift?: number
+  hubbleFit: HubbleFitOptions
+  weather: boolean
+  scaleMode: ScaleModeName
+  sizeExaggeration: number
+  frame: FrameName
+  trailSpan: TrailSpan
+  view: 'cosmos' | 'sky'
+  camera: THREE.Vector3
+  target: THREE.Vector3
+}
+
+// Short keys and rounded values keep links pasteable; ',' and ':' are left unescaped for readability.
+function encodePermalink(state: Permalink) {
+  const vec = (v: THREE.Vector3) => [v.x, v.y, v.z].map((c) => +c.toFixed(4)).join(',')
+  const fields: Array<[string, string]> = [
+    ['t', new Date(Math.round(state.time.getTime() / 1000) * 1000).toISOString().replace('.000Z', 'Z')],
+    ['paused', state.paused ? '1' : '0'],
+    ['speed', `${state.speed}`],
+    ['lat', state.lat.toFixed(4)],
+    ['lon', state.lon.toFixed(4)],
+    ['elev', `${Math.round(state.elevationM)}`],
+    ...(state.placeLabel ? [['place', state.placeLabel] as [string, string]] : []),
+    ['zone', state.displayZone],
+    ['tex', `${+state.textureOffsetDeg.toFixed(2)}`],
+    ['age', `${+state.cosmicAgeGyr.toFixed(2)}`],
+    ['cosmo', [state.cosmology.h0, state.cosmology.omegaM, state.cosmology.omegaLambda, state.cosmology.omegaR].map((v) => +v.toPrecision(6)).join(',')],
+    ...(state.redshift != null ? [['z', `${+state.redshift.toPrecision(6)}`] as [string, string]] : []),
+    [
+      'hfit',
+      [
+        +state.hubbleFit.minDistanceMpc.toFixed(1),
+        +state.hubbleFit.maxDistanceMpc.toFixed(1),
+        state.hubbleFit.throughOrigin ? 1 : 0,
+        state.hubbleFit.rejection,
+      ].join(','),
+    ],
+    ['wx', state.weather ? '1' : '0'],
+    ['scale', state.scaleMode],
+    ['size', `${+state.sizeExaggeration.toFixed(2)}`],
+    ['frame', state.frame],
+    ['trail', state.trailSpan],
+    ['view', state.view],
+    ['cam', vec(state.camera)],
+    ['target', vec(state.target)],
+  ]
+  return fields
+    .map(([key, value]) => `${key}=${encodeURIComponent(value).replace(/%2C/g, ',').replace(/%3A/g, ':')}`)
+    .join('&')
+}
+
+// Anything missing or malformed is left out, so the caller keeps its default for it.
+function decodePermalink(hash: string): Partial<Permalink> {
+  const query = new URLSearchParams(hash.replace(/^#/, ''))
+  const num = (key: string) => {
+    const raw = query.get(key)
+    const value = raw == null || raw === '' ? NaN : Number(raw)
+    return Number.isFinite(value) ? value : undefined
+  }
+  const flag = (key: string) => (query.has(key) ? query.get(key) === '1' : undefined)
+  const vec = (key: string) => {
+    const parts = query.get(key)?.split(',').map(Number)
+    return parts?.length === 3 && parts.every(Number.isFinite) ? new THREE.Vector3(...parts) : undefined
+  }
+
+  const out: Partial<Permalink> = {}
+  const time = new Date(query.get('t') ?? NaN)
+  if (!Number.isNaN(time.getTime())) out.time = new Date(clamp(time.getTime(), SIM_TIME_MIN_MS, SIM_TIME_MAX_MS))
+  out.paused = flag('paused')
+  const speed = num('speed')
+  if (speed != null) out.speed = clamp(speed, -SIM_SPEED_LIMIT, SIM_SPEED_LIMIT)
+  const lat = num('lat')
+  const lon = num('lon')
+  if (lat != null) out.lat = clamp(lat, -90, 90)
+  if (lon != null) out.lon = clamp(lon, -180, 180)
+  out.elevationM = num('elev')
+  const placeLabel = query.get('place')
+  if (placeLabel) out.placeLabel = placeLabel
+  const displayZone = query.get('zone')
+  if (displayZone === 'observer' || (displayZone && isTimeZone(displayZone))) out.displayZone = displayZone
+  out.textureOffsetDeg = num('tex')
+  out.cosmicAgeGyr = num('age')
+  const cosmo = query.get('cosmo')?.split(',').map(Number)
+  if (cosmo?.length === 4 && cosmo.every(Number.isFinite) && cosmo[0] > 0) {
+    const [h0, omegaM, omegaLambda, omegaR] = cosmo
+    out.cosmology = { h0, omegaM, omegaLambda, omegaR }
+  }
+  out.redshift = num('z')
+  const [minRaw, maxRaw, originRaw, rejection] = query.get('hfit')?.split(',') ?? []
+  const [minDistanceMpc, maxDistanceMpc] = [Number(minRaw), Number(maxRaw)]
+  if (Number.isFinite(minDistanceMpc) && Number.isFinite(maxDistanceMpc) && rejection in HUBBLE_REJECTIONS) {
+    out.hubbleFit = {
+      minDistanceMpc,
+      maxDistanceMpc,
+      throughOrigin: originRaw === '1',
+      rejection: rejection as HubbleRejection,
+    }
+  }
+  out.weather = flag('wx')
+  const scaleMode = query.get('scale')
+  if (scaleMode && Object.keys(SCALE_MODES).includes(scaleMode)) out.scaleMode = scaleMode as ScaleModeName
+  out.sizeExaggeration = num('size')
+  const frame = query.get('frame')
+  if (frame && Object.keys(REFERENCE_FRAMES).includes(frame)) out.frame = frame as FrameName
+  const trailSpan = query.get('trail')
+  if (trailSpan && Object.keys(TRAIL_SPANS).includes(trailSpan)) out.trailSpan = trailSpan as TrailSpan
+  const view = query.get('view')
+  if (view === 'cosmos' || view === 'sky') out.view = view
+  out.camera = vec('cam')
+  out.target = vec('target')
+  return out
+}
+
 function makePanelShell(parent: HTMLElement, title: string) {
   const shell = document.createElement('section')
   shell.className = 'panel'
@@ -1461,14 +6679,17 @@ async function main() {
         <p class="eyebrow">Cosmic Clock</p>
         <h1>Earth, solar system, and universe in one view</h1>
       </div>
-      <div class="hint">Drag to orbit • Scroll to zoom • Right-drag to pan • <a class="world-link" href="./world/">World globe</a></div>
+      <div class="hint">Drag to orbit • Scroll to zoom • Right-drag to pan • Click a body to follow it and pin its card, Esc to return • <a class="world-link" href="./world/">World globe</a></div>
     </header>
+    <div id="timebar"></div>
     <div id="panels"></div>
   `
 
   const panelsRoot = document.querySelector<HTMLDivElement>('#panels')!
 
   const showcaseShell = makePanelShell(panelsRoot, 'Earth · Solar System · Universe')
+  const skyShell = makePanelShell(panelsRoot, 'Local sky')
+  skyShell.style.display = 'none'
 
   const time = new TimeController()
 
@@ -1480,18 +6701,57 @@ async function main() {
     lon: DEFAULT_LON,
   }
 
+  const timebarRoot = document.querySelector<HTMLDivElement>('#timebar')!
+  const updateTimeBar = buildTimeBar(timebarRoot, time)
+
   const params = {
-    paused: false,
-    speed: 1,
     resetNow: () => time.resetNow(),
     lat: DEFAULT_LAT,
     lon: DEFAULT_LON,
+    elevationM: DEFAULT_ELEVATION_M,
+    displayZone: 'observer',
+    view: 'cosmos' as 'cosmos' | 'sky',
 
     // Earth
     earthTextureOffsetDeg: 180,
 
+    // Solar System
+    showOrbitMarkers: false,
+    showEclipses: false,
+    showSmallBodies: true,
+    showPlanetMoons: true,
+    moonSystemInset: 'Jupiter',
+    showSatellites: true,
+    scaleMode: 'legible' as ScaleModeName,
+    sizeExaggeration: SCALE_MODES.legible.defaultSize,
+    frame: 'heliocentric' as FrameName,
+    trailSpan: '90d' as TrailSpan,
+
+    // Sky background
+    showStars: true,
+    showConstellations: false,
+    showConstellationBoundaries: false,
+    skyGrid: 'off' as SkyGrid,
+
     // Universe panel
+    cosmologyPreset: 'planck2018' as CosmologyPreset | 'custom',
+    ...COSMOLOGY_PRESETS.planck2018.model,
+    omegaK: curvatureOmega(COSMOLOGY_PRESETS.planck2018.model),
+    epochInput: 'age' as 'age' | 'redshift',
     cosmicAgeGyr: 13.8,
+    redshift: 1,
+    hubbleMinMpc: DEFAULT_HUBBLE_FIT.minDistanceMpc,
+    hubbleMaxMpc: DEFAULT_HUBBLE_FIT.maxDistanceMpc,
+    hubbleThroughOrigin: DEFAULT_HUBBLE_FIT.throughOrigin,
+    hubbleRejection: DEFAULT_HUBBLE_FIT.rejection,
+    catalogMinMpc: DEFAULT_GALAXY_CUTS.minDistanceMpc,
+    catalogMaxMpc: DEFAULT_GALAXY_CUTS.maxDistanceMpc,
+    catalogMaxVelocityKms: DEFAULT_GALAXY_CUTS.maxAbsVelocityKms,
+    loadCatalog: () => catalogImport.pickFile(),
+    bundledCatalog: () => {
+      galaxySource = bundledGalaxySource
+      rebuildGalaxyCatalog()
+    },
 
     // Weather
     weather: true,
@@ -1501,28 +6761,254 @@ async function main() {
     },
   }
 
+  // The galaxy backdrop shows the bundled HyperLeda table until a catalog file is loaded over it.
+  const bundledGalaxySource = {
+    label: 'HyperLeda sample',
+    table: { format: 'CSV', columns: [], rows: [], rowNumbers: [] } as CatalogTable,
+    mapping: BUNDLED_GALAXY_MAPPING,
+  }
+  let galaxySource = bundledGalaxySource
+  const galaxyCuts = (): GalaxyCuts => ({
+    minDistanceMpc: params.catalogMinMpc,
+    maxDistanceMpc: params.catalogMaxMpc,
+    maxAbsVelocityKms: params.catalogMaxVelocityKms,
+  })
+  let galaxyCatalog = buildGalaxyCatalog(galaxySource.label, galaxySource.table, galaxySource.mapping, galaxyCuts())
+  const rebuildGalaxyCatalog = () => {
+    galaxyCatalog = buildGalaxyCatalog(galaxySource.label, galaxySource.table, galaxySource.mapping, galaxyCuts())
+  }
+  const catalogImport = buildCatalogImport(document.body, {
+    getCuts: galaxyCuts,
+    onLoad: (label, table, mapping) => {
+      galaxySource = { label, table, mapping }
+      rebuildGalaxyCatalog()
+    },
+  })
+
+  // The last place picked from the gazetteer; it names the observer until lat/lon move off it.
+  const place = { label: 'Lawrence, KS', lat: DEFAULT_LAT, lon: DEFAULT_LON, timeZone: 'America/Chicago' }
+  const currentPlaceLabel = () =>
+    Math.abs(params.lat - place.lat) < 0.0001 && Math.abs(params.lon - place.lon) < 0.0001 ? place.label : ''
+  let placesPromise: Promise<Place[]> | undefined
+  let loadedPlaces: Place[] = []
+  const getPlaces = () =>
+    (placesPromise ??= loadPlaces().then((places) => {
+      loadedPlaces = places
+      return places
+    }))
+
+  // Observer zone: the picked place's, else the nearest gazetteer city within 250 km, else the nautical zone.
+  let zoneLookup = { key: '', timeZone: 'UTC' }
+  function observerTimeZone() {
+    if (currentPlaceLabel() && place.timeZone) return place.timeZone
+    const key = `${params.lat.toFixed(3)}|${params.lon.toFixed(3)}|${loadedPlaces.length}`
+    if (key !== zoneLookup.key) {
+      if (!loadedPlaces.length) getPlaces().catch((err) => console.warn(err))
+      const nearest = nearestPlace(loadedPlaces, params.lat, params.lon)
+      const timeZone = nearest && nearest.distanceKm < 250 ? nearest.place.timeZone : nauticalTimeZone(params.lon)
+      zoneLookup = { key, timeZone }
+    }
+    return zoneLookup.timeZone
+  }
+  const displayTimeZone = () => (params.displayZone === 'observer' ? observerTimeZone() : params.displayZone)
+
+  // A shared link overrides the defaults before the GUI reads them.
+  const link = decodePermalink(location.hash)
+  if (link.time) time.jumpTo(link.time)
+  if (link.paused != null) time.paused = link.paused
+  if (link.speed != null) time.speed = link.speed
+  if (link.lat != null) params.lat = link.lat
+  if (link.lon != null) params.lon = link.lon
+  if (link.elevationM != null) params.elevationM = link.elevationM
+  if (link.placeLabel) Object.assign(place, { label: link.placeLabel, lat: params.lat, lon: params.lon, timeZone: '' })
+  if (link.displayZone) params.displayZone = link.displayZone
+  if (link.textureOffsetDeg != null) params.earthTextureOffsetDeg = link.textureOffsetDeg
+  if (link.cosmicAgeGyr != null) params.cosmicAgeGyr = link.cosmicAgeGyr
+  if (link.cosmology) Object.assign(params, link.cosmology)
+  if (link.redshift != null) {
+    params.epochInput = 'redshift'
+    params.redshift = link.redshift
+  }
+  if (link.hubbleFit) {
+    params.hubbleMinMpc = link.hubbleFit.minDistanceMpc
+    params.hubbleMaxMpc = link.hubbleFit.maxDistanceMpc
+    params.hubbleThroughOrigin = link.hubbleFit.throughOrigin
+    params.hubbleRejection = link.hubbleFit.rejection
+  }
+  if (link.weather != null) params.weather = link.weather
+  if (link.scaleMode) params.scaleMode = link.scaleMode
+  if (link.frame) params.frame = link.frame
+  if (link.trailSpan) params.trailSpan = link.trailSpan
+  params.sizeExaggeration = SCALE_MODES[params.scaleMode].defaultSize
+  if (link.sizeExaggeration != null) {
+    const { minSize, maxSize } = SCALE_MODES[params.scaleMode]
+    params.sizeExaggeration = clamp(link.sizeExaggeration, minSize, maxSize)
+  }
+  // Each mode remembers its own size factor.
+  const sizeByMode = Object.fromEntries(
+    (Object.keys(SCALE_MODES) as ScaleModeName[]).map((name) => [name, SCALE_MODES[name].defaultSize])
+  ) as Record<ScaleModeName, number>
+  sizeByMode[params.scaleMode] = params.sizeExaggeration
+
   const gui = new GUI({ title: 'Cosmic Clock' })
-  gui.add(params, 'paused').onChange((v: boolean) => (time.paused = v))
+  gui.add(time, 'paused').listen()
+  gui.add(time, 'speed').name('speed (×, negative = reverse)').listen()
+  gui.add(params, 'resetNow')
   gui
-    .add(params, 'speed', {
-      '1× (real time)': 1,
-      '60× (1 min/sec)': 60,
-      '3600× (1 hr/sec)': 3600,
-      '86400× (1 day/sec)': 86400,
+    .add(params, 'displayZone', {
+      Observer: 'observer',
+      UTC: 'UTC',
+      [`Browser (${DEFAULT_TIME_ZONE})`]: DEFAULT_TIME_ZONE,
+      ...Object.fromEntries(Intl.supportedValuesOf('timeZone').map((zone) => [zone, zone])),
     })
-    .onChange((v: number) => (time.speed = v))
-  gui.add(params, 'resetNow')
+    .name('display zone')
+  const viewController = gui
+    .add(params, 'view', { Cosmos: 'cosmos', 'Local sky': 'sky' })
+    .onChange((v: 'cosmos' | 'sky') => setView(v))
 
   const earthFolder = gui.addFolder('Earth')
   earthFolder
     .add(params, 'earthTextureOffsetDeg', -180, 180, 0.1)
     .name('texture offset (deg)')
+  earthFolder
+    .add(params, 'showSatellites')
+    .name('satellites')
   earthFolder.close()
 
+  const solarFolder = gui.addFolder('Solar System')
+  solarFolder
+    .add(params, 'showOrbitMarkers')
+    .name('apsides + nodes')
+  solarFolder
+    .add(params, 'showEclipses')
+    .name('eclipse list')
+  solarFolder
+    .add(params, 'showSmallBodies')
+    .name('minor bodies')
+  solarFolder
+    .add(params, 'showPlanetMoons')
+    .name('planet moons')
+  solarFolder
+    .add(params, 'moonSystemInset', { Off: '', ...Object.fromEntries(MOON_SYSTEMS.map((s) => [s.name, s.name])) })
+    .name('moon system inset')
+  solarFolder
+    .add(params, 'scaleMode', Object.fromEntries(Object.entries(SCALE_MODES).map(([name, mode]) => [mode.label, name])))
+    .name('scale mode')
+    .onChange((name: ScaleModeName) => {
+      const { minSize, maxSize } = SCALE_MODES[name]
+      params.sizeExaggeration = sizeByMode[name]
+      sizeController.min(minSize).max(maxSize).step(minSize < 1 ? 0.05 : 1).updateDisplay()
+    })
+  const sizeController = solarFolder
+    .add(params, 'sizeExaggeration', SCALE_MODES[params.scaleMode].minSize, SCALE_MODES[params.scaleMode].maxSize)
+    .step(SCALE_MODES[params.scaleMode].minSize < 1 ? 0.05 : 1)
+    .name('size ×')
+    .onChange((v: number) => {
+      sizeByMode[params.scaleMode] = v
+    })
+  solarFolder
+    .add(params, 'frame', Object.fromEntries(Object.entries(REFERENCE_FRAMES).map(([name, frame]) => [frame.label, name])))
+    .name('frame')
+  solarFolder
+    .add(params, 'trailSpan', Object.fromEntries(Object.entries(TRAIL_SPANS).map(([name, span]) => [span.label, name])))
+    .name('trails')
+  solarFolder.close()
+
+  const skyFolder = gui.addFolder('Sky background')
+  skyFolder
+    .add(params, 'showStars')
+    .name('stars')
+  skyFolder
+    .add(params, 'showConstellations')
+    .name('constellation lines')
+  skyFolder
+    .add(params, 'showConstellationBoundaries')
+    .name('constellation boundaries')
+  skyFolder
+    .add(params, 'skyGrid', { Off: 'off', Ecliptic: 'ecliptic', Equatorial: 'equatorial' })
+    .name('grid')
+  skyFolder.close()
+
+  const currentCosmology = (): Cosmology => ({
+    h0: params.h0,
+    omegaM: params.omegaM,
+    omegaLambda: params.omegaLambda,
+    omegaR: params.omegaR,
+  })
+  // Hand-edited values that land on a preset are named after it.
+  const matchPreset = () => {
+    const model = currentCosmology()
+    const match = (Object.keys(COSMOLOGY_PRESETS) as CosmologyPreset[]).find((name) =>
+      (Object.keys(model) as Array<keyof Cosmology>).every((key) => COSMOLOGY_PRESETS[name].model[key] === model[key])
+    )
+    params.cosmologyPreset = match ?? 'custom'
+    params.omegaK = curvatureOmega(model)
+  }
+  matchPreset()
+  const currentHubbleFit = (): HubbleFitOptions => ({
+    minDistanceMpc: params.hubbleMinMpc,
+    maxDistanceMpc: params.hubbleMaxMpc,
+    throughOrigin: params.hubbleThroughOrigin,
+    rejection: params.hubbleRejection,
+  })
+
   const universeFolder = gui.addFolder('Universe')
+  const refreshUniverseFolder = () => universeFolder.controllers.forEach((c) => c.updateDisplay())
+  universeFolder
+    .add(params, 'cosmologyPreset', {
+      ...Object.fromEntries(Object.entries(COSMOLOGY_PRESETS).map(([name, preset]) => [preset.label, name])),
+      Custom: 'custom',
+    })
+    .name('model')
+    .onChange((name: CosmologyPreset | 'custom') => {
+      if (name === 'custom') return
+      Object.assign(params, COSMOLOGY_PRESETS[name].model)
+      matchPreset()
+      refreshUniverseFolder()
+    })
+  const onModelEdit = () => {
+    matchPreset()
+    refreshUniverseFolder()
+  }
+  universeFolder.add(params, 'h0', 30, 100, 0.01).name('H0 (km/s/Mpc)').onChange(onModelEdit)
+  universeFolder.add(params, 'omegaM', 0, 3, 0.001).name('Ωm').onChange(onModelEdit)
+  universeFolder.add(params, 'omegaLambda', -1, 3, 0.001).name('ΩΛ').onChange(onModelEdit)
+  universeFolder.add(params, 'omegaR', 0, 0.001, 0.0000001).name('Ωr').onChange(onModelEdit)
+  // Curvature is whatever closes the budget; setting it directly trades against ΩΛ.
+  universeFolder
+    .add(params, 'omegaK', -2, 2, 0.001)
+    .name('Ωk')
+    .onChange((omegaK: number) => {
+      params.omegaLambda = 1 - params.omegaM - params.omegaR - omegaK
+      onModelEdit()
+    })
+  const ageController = universeFolder.add(params, 'cosmicAgeGyr', 0.0001, 40, 0.01).name('age (Gyr)')
+  const redshiftController = universeFolder.add(params, 'redshift', -0.9, 1500, 0.001).name('redshift z')
+  const showEpochInput = () => {
+    ageController.show(params.epochInput === 'age')
+    redshiftController.show(params.epochInput === 'redshift')
+  }
   universeFolder
-    .add(params, 'cosmicAgeGyr', 0.1, 40, 0.1)
-    .name('age (Gyr)')
+    .add(params, 'epochInput', { 'Cosmic age': 'age', Redshift: 'redshift' })
+    .name('epoch by')
+    .onChange(showEpochInput)
+  showEpochInput()
+  const hubbleFolder = universeFolder.addFolder('Hubble fit')
+  hubbleFolder.add(params, 'hubbleMinMpc', 0, 1000, 0.5).name('min distance (Mpc)')
+  hubbleFolder.add(params, 'hubbleMaxMpc', 1, 1000, 0.5).name('max distance (Mpc)')
+  hubbleFolder.add(params, 'hubbleThroughOrigin').name('through origin')
+  hubbleFolder
+    .add(params, 'hubbleRejection', Object.fromEntries(Object.entries(HUBBLE_REJECTIONS).map(([name, label]) => [label, name])))
+    .name('outliers')
+  const catalogFolder = universeFolder.addFolder('Galaxy catalog')
+  catalogFolder.add(params, 'loadCatalog').name('load file…')
+  catalogFolder.add(params, 'bundledCatalog').name('bundled sample')
+  catalogFolder.add(params, 'catalogMinMpc', 0, 1000, 0.5).name('min distance (Mpc)').onFinishChange(rebuildGalaxyCatalog)
+  catalogFolder.add(params, 'catalogMaxMpc', 1, 5000, 1).name('max distance (Mpc)').onFinishChange(rebuildGalaxyCatalog)
+  catalogFolder
+    .add(params, 'catalogMaxVelocityKms', 100, 100000, 100)
+    .name('max |v| (km/s)')
+    .onFinishChange(rebuildGalaxyCatalog)
   universeFolder.close()
 
   const locFolder = gui.addFolder('Location')
@@ -1532,6 +7018,25 @@ async function main() {
   locFolder
     .add(params, 'lon', -180, 180, 0.0001)
     .onChange(() => void maybeFetchWeather(weather, params.lat, params.lon, true))
+  locFolder
+    .add(params, 'elevationM', -500, 9000, 1)
+    .name('elevation (m)')
+  buildPlaceSearch(locFolder.$children, {
+    getPlaces,
+    onPick: (picked) => {
+      params.lat = picked.lat
+      params.lon = picked.lon
+      params.elevationM = picked.elevationM
+      Object.assign(place, {
+        label: formatPlaceLabel(picked),
+        lat: picked.lat,
+        lon: picked.lon,
+        timeZone: picked.timeZone,
+      })
+      locFolder.controllers.forEach((c) => c.updateDisplay())
+      void maybeFetchWeather(weather, params.lat, params.lon, true)
+    },
+  })
   locFolder.close()
 
   const weatherFolder = gui.addFolder('Weather')
@@ -1545,22 +7050,89 @@ async function main() {
   weatherFolder.add(params, 'refreshWeather').name('refresh now')
   weatherFolder.close()
   gui.close()
-  time.paused = params.paused
-  time.speed = params.speed
 
   const panel = makePanel('combined', showcaseShell)
-  const galaxySamples = await loadGalaxySamples().catch((err) => {
+  const skyPanel = makePanel('sky', skyShell)
+  const galaxyTable = await loadGalaxyTable().catch((err) => {
+    console.warn(err)
+    return null
+  })
+  if (galaxyTable) {
+    bundledGalaxySource.table = galaxyTable
+    rebuildGalaxyCatalog()
+  }
+  const stars = await loadStarCatalog().catch((err) => {
+    console.warn(err)
+    return [] as StarSample[]
+  })
+  const constellationFigures = await loadConstellationFigures().catch((err) => {
+    console.warn(err)
+    return [] as ConstellationFigure[]
+  })
+  const constellationBoundaries = await loadConstellationFigures('constellation-bounds.csv').catch((err) => {
+    console.warn(err)
+    return [] as ConstellationFigure[]
+  })
+  const smallBodies = await loadSmallBodies().catch((err) => {
+    console.warn(err)
+    return [] as SmallBody[]
+  })
+  const planetMoons = await loadPlanetMoons().catch((err) => {
+    console.warn(err)
+    return [] as PlanetMoon[]
+  })
+  const satellites = await loadSatellites().catch((err) => {
     console.warn(err)
-    return [] as GalaxySample[]
+    return [] as Satellite[]
   })
 
+  function setView(view: 'cosmos' | 'sky') {
+    params.view = view
+    viewController.updateDisplay()
+    showcaseShell.style.display = view === 'cosmos' ? '' : 'none'
+    skyShell.style.display = view === 'sky' ? '' : 'none'
+    // A hidden panel has no size, so lay out the one just shown.
+    ;(view === 'sky' ? skyPanel : panel).onResize()
+  }
+
   await buildCombinedPanel(panel, {
     getLat: () => params.lat,
     getLon: () => params.lon,
-    getLabel: () => formatLocationLabel(params.lat, params.lon),
+    getElevationM: () => params.elevationM,
+    getObserverTimeZone: observerTimeZone,
+    getDisplayTimeZone: displayTimeZone,
+    getLabel: () => formatLocationLabel(params.lat, params.lon, currentPlaceLabel()),
     getTextureOffsetDeg: () => params.earthTextureOffsetDeg,
     getCosmicAgeGyr: () => params.cosmicAgeGyr,
-    galaxySamples,
+    getCosmology: currentCosmology,
+    getCosmologyLabel: () =>
+      params.cosmologyPreset === 'custom' ? 'Custom model' : COSMOLOGY_PRESETS[params.cosmologyPreset].label,
+    getCosmicEpoch: () =>
+      params.epochInput === 'redshift' ? { z: params.redshift } : { ageGyr: params.cosmicAgeGyr },
+    getHubbleFitOptions: currentHubbleFit,
+    getShowOrbitMarkers: () => params.showOrbitMarkers,
+    getShowEclipses: () => params.showEclipses,
+    getShowSmallBodies: () => params.showSmallBodies,
+    getShowPlanetMoons: () => params.showPlanetMoons,
+    getMoonSystemInset: () => params.moonSystemInset,
+    getShowSatellites: () => params.showSatellites,
+    getScaleMode: () => params.scaleMode,
+    getSizeExaggeration: () => params.sizeExaggeration,
+    getFrame: () => params.frame,
+    getTrailSpan: () => params.trailSpan,
+    getShowStars: () => params.showStars,
+    getShowConstellations: () => params.showConstellations,
+    getShowConstellationBoundaries: () => params.showConstellationBoundaries,
+    getSkyGrid: () => params.skyGrid,
+    onJumpToTime: (date: Date) => time.jumpTo(date),
+    onSelectLocation: () => setView('sky'),
+    getGalaxyCatalog: () => galaxyCatalog,
+    smallBodies,
+    planetMoons,
+    satellites,
+    stars,
+    constellationFigures,
+    constellationBoundaries,
     getWeatherLines: () => {
       if (!params.weather) return ['Weather: (disabled)']
       if (weather.error) return [`Weather: error (${weather.error})`]
@@ -1573,8 +7145,73 @@ async function main() {
     },
   } as any)
 
-  const ro = new ResizeObserver(() => panel.onResize())
+  buildSkyPanel(skyPanel, {
+    getLat: () => params.lat,
+    getLon: () => params.lon,
+    getElevationM: () => params.elevationM,
+    getDisplayTimeZone: displayTimeZone,
+    getLabel: () => formatLocationLabel(params.lat, params.lon, currentPlaceLabel()),
+    stars,
+    onExit: () => setView('cosmos'),
+  })
+
+  if (link.view) setView(link.view)
+  const linkedPanel = params.view === 'sky' ? skyPanel : panel
+  if (link.camera) linkedPanel.camera.position.copy(link.camera)
+  if (link.target) linkedPanel.controls.target.copy(link.target)
+
+  let lastPermalink = location.hash.replace(/^#/, '')
+  let permalinkTimer = 0
+  let permalinkCheckedAtMs = 0
+  // Debounced, so a camera drag or slider scrub only touches history once it settles.
+  function schedulePermalink() {
+    window.clearTimeout(permalinkTimer)
+    permalinkTimer = window.setTimeout(() => {
+      const active = params.view === 'sky' ? skyPanel : panel
+      const hash = encodePermalink({
+        time: time.simTime,
+        paused: time.paused,
+        speed: time.speed,
+        lat: params.lat,
+        lon: params.lon,
+        elevationM: params.elevationM,
+        placeLabel: currentPlaceLabel(),
+        displayZone: params.displayZone,
+        textureOffsetDeg: params.earthTextureOffsetDeg,
+        cosmicAgeGyr: params.cosmicAgeGyr,
+        cosmology: currentCosmology(),
+        redshift: params.epochInput === 'redshift' ? params.redshift : undefined,
+        hubbleFit: currentHubbleFit(),
+        weather: params.weather,
+        scaleMode: params.scaleMode,
+        sizeExaggeration: params.sizeExaggeration,
+        frame: params.frame,
+        trailSpan: params.trailSpan,
+        view: params.view,
+        camera: active.camera.position,
+        target: active.controls.target,
+      })
+      if (hash === lastPermalink) return
+      lastPermalink = hash
+      history.replaceState(null, '', `#${hash}`)
+    }, 500)
+  }
+  panel.controls.addEventListener('change', schedulePermalink)
+  skyPanel.controls.addEventListener('change', schedulePermalink)
+  gui.onChange(schedulePermalink)
+  timebarRoot.addEventListener('input', schedulePermalink)
+  timebarRoot.addEventListener('click', schedulePermalink)
+  // Pasting a different link into this tab should load it, not be overwritten by the running state.
+  window.addEventListener('hashchange', () => {
+    if (location.hash.replace(/^#/, '') !== lastPermalink) location.reload()
+  })
+
+  const ro = new ResizeObserver(() => {
+    panel.onResize()
+    skyPanel.onResize()
+  })
   ro.observe(panel.root)
+  ro.observe(skyPanel.root)
   panel.onResize()
 
   // Kick off first weather fetch
@@ -1583,13 +7220,21 @@ async function main() {
 
   function frame() {
     const t = time.tick()
+    updateTimeBar()
+
+    // The running clock moves the link too; keep it at most a second stale.
+    if (performance.now() - permalinkCheckedAtMs > 1000) {
+      permalinkCheckedAtMs = performance.now()
+      schedulePermalink()
+    }
 
     // refresh weather occasionally (based on real time)
     void maybeFetchWeather(weather, params.lat, params.lon)
 
-    panel.controls.update()
-    panel.onFrame(t)
-    panel.renderer.render(panel.scene, panel.camera)
+    const active = params.view === 'sky' ? skyPanel : panel
+    active.controls.update()
+    active.onFrame(t)
+    active.renderer.render(active.scene, active.camera)
     requestAnimationFrame(frame)
   }
 